@@ -5,12 +5,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Leaderboard from "@/pages/leaderboard";
+import Report from "@/pages/report";
 
 function Router() {
   return (
     <Switch>
       {/* Add pages below */}
       <Route path="/" component={Home}/>
+      <Route path="/address/:address" component={Home}/>
+      <Route path="/leaderboard" component={Leaderboard}/>
+      <Route path="/report/:id" component={Report}/>
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -20,8 +25,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
         <Toaster />
         <Router />
+      </TooltipProvider>
     </QueryClientProvider>
   );
 }
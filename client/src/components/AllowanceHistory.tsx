@@ -0,0 +1,97 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, ArrowUpRight, ArrowDownRight, ShieldOff, ShieldCheck, ExternalLink } from "lucide-react";
+import { ARC_TESTNET } from "@/lib/arc-network";
+import { formatTokenAmount, isUnlimitedAmount } from "@shared/allowance";
+import type { AllowanceChange, DetectedApproval } from "@shared/schema";
+
+const KIND_STYLES: Record<AllowanceChange['kind'], { label: string; className: string; icon: typeof ShieldCheck }> = {
+  set: { label: 'Set', className: 'text-primary border-primary/30 bg-primary/10', icon: ShieldCheck },
+  increase: { label: 'Increase', className: 'text-orange-400 border-orange-500/30 bg-orange-500/10', icon: ArrowUpRight },
+  decrease: { label: 'Decrease', className: 'text-green-400 border-green-500/30 bg-green-500/10', icon: ArrowDownRight },
+  revoke: { label: 'Revoke', className: 'text-muted-foreground border-white/10 bg-white/5', icon: ShieldOff },
+};
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+const formatAmount = (amount: string, decimals: number) => {
+  if (isUnlimitedAmount(BigInt(amount))) return 'Unlimited';
+  return formatTokenAmount(amount, decimals);
+};
+
+// Drill-down drawer listing every allowance change of one token/spender pair
+export function AllowanceHistory({ account, approval, onClose }: { account: string; approval: DetectedApproval | null; onClose: () => void }) {
+  const { data: changes, isLoading, isError } = useQuery<AllowanceChange[]>({
+    queryKey: ['/api/approvals/history', account, approval?.tokenAddress, approval?.spenderAddress],
+    queryFn: async () => {
+      const response = await fetch(`/api/approvals/history?wallet=${account}&token=${approval!.tokenAddress}&spender=${approval!.spenderAddress}`);
+      if (!response.ok) throw new Error('Failed to fetch allowance history');
+      return response.json();
+    },
+    enabled: !!approval,
+  });
+
+  const explorerUrl = ARC_TESTNET.blockExplorerUrls[0];
+
+  return (
+    <Sheet open={!!approval} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <SheetContent className="bg-black/90 border-white/10 w-full sm:max-w-lg overflow-y-auto" data-testid="sheet-allowance-history">
+        <SheetHeader>
+          <SheetTitle className="font-display text-white">{approval?.tokenSymbol} Allowance History</SheetTitle>
+          <SheetDescription className="font-mono text-xs">
+            Spender {approval ? formatAddress(approval.spenderAddress) : ''} · newest first
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+        {isError && (
+          <p className="text-red-400 text-xs font-mono mt-6">Could not load the allowance history.</p>
+        )}
+        {changes && changes.length === 0 && (
+          <p className="text-muted-foreground text-sm mt-6">No allowance changes found for this pair.</p>
+        )}
+
+        {changes && changes.length > 0 && (
+          <ol className="mt-6 space-y-3">
+            {[...changes].reverse().map((change) => {
+              const style = KIND_STYLES[change.kind];
+              const Icon = style.icon;
+              return (
+                <li key={`${change.txHash}-${change.logIndex}`} className="p-3 rounded-lg border border-white/10 bg-card/40" data-testid={`row-history-${change.txHash}-${change.logIndex}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`flex items-center gap-1.5 px-2 py-0.5 rounded border text-xs font-bold uppercase ${style.className}`}>
+                      <Icon className="h-3 w-3" /> {style.label}
+                    </span>
+                    <span className="text-[10px] font-mono text-muted-foreground">
+                      {change.timestamp ? new Date(change.timestamp * 1000).toLocaleString() : '-'}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm font-mono text-white">
+                    {change.kind === 'set' ? '' : `${formatAmount(change.previousAmount, approval!.decimals)} → `}
+                    {formatAmount(change.amount, approval!.decimals)} {approval?.tokenSymbol}
+                  </p>
+                  <div className="mt-2 grid grid-cols-2 gap-1 text-[10px] font-mono text-muted-foreground">
+                    <span>Block {change.blockNumber.toLocaleString()}</span>
+                    <span>Via {change.originContract ? formatAddress(change.originContract) : '-'}</span>
+                    <a
+                      href={`${explorerUrl}/tx/${change.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="col-span-2 flex items-center gap-1 text-primary hover:underline"
+                    >
+                      {formatAddress(change.txHash)} <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -2,207 +2,206 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ShieldAlert, Loader2, RefreshCw, ShieldOff, AlertTriangle, Coins, DollarSign } from "lucide-react";
-import { useState, useEffect, useCallback, useRef } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ShieldAlert, Loader2, RefreshCw, ShieldOff, AlertTriangle, Coins, DollarSign, Image, Lock, Eye, History, Moon, ArrowUpDown, ArrowUp, ArrowDown, Skull } from "lucide-react";
+import { Link } from "wouter";
+import { AllowanceHistory } from "@/components/AllowanceHistory";
+import { RevokeHistoryList } from "@/components/RevokeHistoryList";
+import { ExportMenu } from "@/components/ExportMenu";
+import { GenerateReportButton } from "@/components/GenerateReportButton";
+import { SpenderLabel } from "@/components/SpenderLabel";
+import { useState, useEffect, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { BrowserProvider, Contract, JsonRpcProvider, formatUnits } from "ethers";
-import { switchNetwork, ARC_TESTNET } from "@/lib/arc-network";
+import { BrowserProvider, Contract, ZeroAddress } from "ethers";
+import { switchNetwork } from "@/lib/arc-network";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DetectedApproval, DetectedNftApproval, Permit2Allowance, HeldToken, ScanMeta, DataSourceName, ApprovalStreamEvent, SpenderRisk, TokenPrice, AllowanceClass } from "@shared/schema";
+import { PERMIT2_ADDRESS } from "@shared/contracts";
+import { formatTokenAmount, walletExposure } from "@shared/allowance";
 
-interface Token {
-  contractAddress: string;
-  name: string;
-  symbol: string;
-  balance?: string;
-  decimals?: number;
-}
+const ERC20_ABI = [
+  "function approve(address spender, uint256 amount) external returns (bool)"
+];
 
-interface DetectedApproval {
-  id: string;
-  tokenAddress: string;
-  tokenName: string;
-  tokenSymbol: string;
-  spenderAddress: string;
-  allowance?: string;
-  valueAtRisk?: number;
-  balance?: string;
-  isUnlimited?: boolean;
-  approvalTimestamp?: number;
-}
+const NFT_ABI = [
+  "function setApprovalForAll(address operator, bool approved) external",
+  "function approve(address to, uint256 tokenId) external"
+];
 
-const ERC20_ABI = [
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function allowance(address owner, address spender) view returns (uint256)",
-  "function balanceOf(address account) view returns (uint256)",
-  "function decimals() view returns (uint8)"
+const PERMIT2_ABI = [
+  "function lockdown((address token, address spender)[] approvals) external"
 ];
 
-const APPROVAL_TOPIC = "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925";
-
-// Mock testnet token prices (in USD) - in production this would come from an oracle
-const TESTNET_PRICES: Record<string, number> = {
-  'USDC': 1.00,
-  'USDT': 1.00,
-  'DAI': 1.00,
-  'WETH': 2200,
-  'ETH': 2200,
-  'WBTC': 43000,
-  'BTC': 43000,
-  'ARC': 0.50,
-  'TEST': 0.10,
+const SOURCE_LABELS: Record<DataSourceName, string> = {
+  explorer: 'ArcScan explorer',
+  rpc: 'JSON-RPC node',
+  index: 'local index',
+};
+
+// Scan endpoints report their data sources in response headers
+const readScanMeta = (response: Response): ScanMeta => ({
+  sources: (response.headers.get('X-Scan-Sources') || '').split(',').filter(Boolean) as DataSourceName[],
+  partial: response.headers.get('X-Scan-Partial') === 'true',
+  blockNumber: response.headers.has('X-Scan-Block') ? Number(response.headers.get('X-Scan-Block')) : undefined,
+  scannedAt: response.headers.has('X-Scan-Time') ? Number(response.headers.get('X-Scan-Time')) : undefined,
+});
+
+const mergeScanMeta = (metas: ScanMeta[]): ScanMeta => ({
+  sources: Array.from(new Set(metas.flatMap(m => m.sources))),
+  partial: metas.some(m => m.partial),
+});
+
+// Unlimited approvals come back without a finite value at risk
+const withRiskValue = (approval: DetectedApproval): DetectedApproval => ({
+  ...approval,
+  valueAtRisk: approval.isUnlimited ? Infinity : approval.valueAtRisk
+});
+
+const PRICE_SOURCE_LABELS: Record<TokenPrice['source'], string> = {
+  override: 'Manual override',
+  dex: 'DEX pool reserves',
+  static: 'Price file',
+};
+
+// Unlimited keeps its own pulsing badge; bounded allowances show the plain amount
+const ALLOWANCE_CLASS_STYLES: Record<Exclude<AllowanceClass, 'unlimited' | 'bounded'>, { label: string; className: string }> = {
+  'exceeds-supply': { label: 'Above supply', className: 'text-red-400 border-red-500/30 bg-red-500/10' },
+  'exceeds-balance': { label: 'Above balance', className: 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10' },
 };
 
-const getTokenPrice = (symbol: string): number => {
-  const upperSymbol = symbol.toUpperCase();
-  return TESTNET_PRICES[upperSymbol] || 0.01;
+const RISK_STYLES: Record<SpenderRisk['level'], string> = {
+  low: 'text-green-400 border-green-500/30 bg-green-500/10',
+  medium: 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10',
+  high: 'text-orange-400 border-orange-500/30 bg-orange-500/20',
+  critical: 'text-red-400 border-red-500/40 bg-red-500/20',
 };
 
-export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account: string | null; onStatsUpdate?: () => void; wrongNetwork?: boolean }) {
-  const [tokens, setTokens] = useState<Token[]>([]);
+const STREAM_EVENTS: ApprovalStreamEvent['type'][] = ['approval', 'approval-removed', 'nft-approval', 'nft-approval-removed', 'revoke'];
+
+interface ApprovalListProps {
+  // Wallet whose approvals are scanned
+  account: string | null;
+  // Wallet connected in the browser; differs from `account` when watching another address
+  connectedAccount?: string | null;
+  // Watch-only mode: scan results are shown but nothing can be revoked
+  readOnly?: boolean;
+  onStatsUpdate?: () => void;
+  wrongNetwork?: boolean;
+}
+
+export function ApprovalList({ account, connectedAccount, readOnly = false, onStatsUpdate, wrongNetwork }: ApprovalListProps) {
+  const [tokens, setTokens] = useState<HeldToken[]>([]);
+  const [tokensMeta, setTokensMeta] = useState<ScanMeta | null>(null);
+  const [approvalsMeta, setApprovalsMeta] = useState<ScanMeta | null>(null);
   const [detectedApprovals, setDetectedApprovals] = useState<DetectedApproval[]>([]);
+  const [nftApprovals, setNftApprovals] = useState<DetectedNftApproval[]>([]);
+  const [permit2Allowances, setPermit2Allowances] = useState<Permit2Allowance[]>([]);
+  const [isLockingDown, setIsLockingDown] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [revokingIds, setRevokingIds] = useState<Set<string>>(new Set());
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isBatchRevoking, setIsBatchRevoking] = useState(false);
+  const [isRevokingFlagged, setIsRevokingFlagged] = useState(false);
+  const [historyApproval, setHistoryApproval] = useState<DetectedApproval | null>(null);
+  const [riskSort, setRiskSort] = useState<'asc' | 'desc' | null>(null);
   const { toast } = useToast();
+  const isOwnWallet = !!account && !!connectedAccount && account.toLowerCase() === connectedAccount.toLowerCase();
+  const revokeDisabled = readOnly || wrongNetwork;
   
-  // Ref to store previous tokens for fallback on errors
-  const tokensRef = useRef<Token[]>([]);
-  useEffect(() => {
-    tokensRef.current = tokens;
-  }, [tokens]);
-
   const fetchTokens = useCallback(async () => {
     if (!account) return;
     setIsLoading(true);
     
     try {
-      const response = await fetch(
-        `https://testnet.arcscan.app/api?module=account&action=tokenlist&address=${account}`
-      );
-      const data = await response.json();
-      
-      if (data.result && Array.isArray(data.result)) {
-        const provider = new JsonRpcProvider(ARC_TESTNET.rpcUrls[0]);
-        const tokensWithBalances = await Promise.all(
-          data.result.map(async (token: Token) => {
-            try {
-              const contract = new Contract(token.contractAddress, ERC20_ABI, provider);
-              const [balance, decimals] = await Promise.all([
-                contract.balanceOf(account),
-                contract.decimals().catch(() => 18)
-              ]);
-              return {
-                ...token,
-                balance: formatUnits(balance, decimals),
-                decimals
-              };
-            } catch (e) {
-              console.error('Failed to fetch balance for', token.symbol, e);
-              // Preserve previous balance if available
-              const existingToken = tokensRef.current.find(t => t.contractAddress === token.contractAddress);
-              return { ...token, balance: existingToken?.balance || '0', decimals: existingToken?.decimals || 18 };
-            }
-          })
-        );
-        setTokens(tokensWithBalances);
-        scanForApprovals(tokensWithBalances);
-      }
-      // Don't clear tokens if the API returns no result - keep previous data
+      const response = await fetch(`/api/tokens?wallet=${account}`);
+      if (!response.ok) throw new Error('Failed to fetch tokens');
+      setTokens(await response.json());
+      setTokensMeta(readScanMeta(response));
     } catch (error) {
       console.error("Failed to fetch tokens", error);
       // Don't clear tokens on error - preserve previous data
     } finally {
       setIsLoading(false);
     }
+    scanForApprovals();
   }, [account]);
 
+  const applyStreamEvent = useCallback((event: ApprovalStreamEvent) => {
+    switch (event.type) {
+      case 'approval':
+        // Changed approvals move to the top, matching the most-recent-first scan order.
+        // Streamed approvals carry no usage data, so the scanned usage columns are kept.
+        setDetectedApprovals(prev => {
+          const existing = prev.find(a => a.id === event.approval.id);
+          return [withRiskValue({ ...existing, ...event.approval }), ...prev.filter(a => a.id !== event.approval.id)];
+        });
+        break;
+      case 'approval-removed':
+        setDetectedApprovals(prev => prev.filter(a => a.id !== event.id));
+        break;
+      case 'nft-approval':
+        setNftApprovals(prev => [event.approval, ...prev.filter(a => a.id !== event.approval.id)]);
+        break;
+      case 'nft-approval-removed':
+        setNftApprovals(prev => prev.filter(a => a.id !== event.id));
+        break;
+      case 'revoke':
+        queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/revokes'] });
+        onStatsUpdate?.();
+        break;
+    }
+  }, [onStatsUpdate]);
+
   useEffect(() => {
     if (account) {
       fetchTokens();
-      // Set up polling for real-time updates every 2 minutes to avoid congestion
-      const interval = setInterval(() => {
-        fetchTokens();
-      }, 120000);
-      return () => clearInterval(interval);
+      // After the initial scan, changes arrive over the approval stream instead of periodic rescans
+      const stream = new EventSource(`/api/approvals/stream?wallet=${account}`);
+      const handleMessage = (message: MessageEvent) => applyStreamEvent(JSON.parse(message.data));
+      STREAM_EVENTS.forEach(type => stream.addEventListener(type, handleMessage));
+      // EventSource reconnects on its own; rescan then, since changes may have been missed meanwhile
+      let connected = false;
+      stream.onopen = () => {
+        if (connected) fetchTokens();
+        connected = true;
+      };
+      return () => stream.close();
     } else {
       setTokens([]);
       setDetectedApprovals([]);
+      setNftApprovals([]);
+      setPermit2Allowances([]);
+      setTokensMeta(null);
+      setApprovalsMeta(null);
     }
-  }, [account, fetchTokens]);
+  }, [account, fetchTokens, applyStreamEvent]);
 
-  const scanForApprovals = async (tokenList: Token[]) => {
-    if (!account || tokenList.length === 0) return;
+  const scanForApprovals = async () => {
+    if (!account) return;
     setIsScanning(true);
     
     try {
-      const provider = new JsonRpcProvider(ARC_TESTNET.rpcUrls[0]);
-      const paddedOwner = account.toLowerCase().replace('0x', '').padStart(64, '0');
-      const topic1 = '0x' + paddedOwner;
-      const found: DetectedApproval[] = [];
-
-      for (const token of tokenList) {
-        try {
-          const logsResponse = await fetch(
-            `https://testnet.arcscan.app/api?module=logs&action=getLogs&fromBlock=0&toBlock=latest&address=${token.contractAddress}&topic0=${APPROVAL_TOPIC}&topic1=${topic1}&topic0_1_opr=and`
-          );
-          const logsData = await logsResponse.json();
-          
-          if (logsData.result && Array.isArray(logsData.result) && logsData.result.length > 0) {
-            const spenderTimestamps = new Map<string, number>();
-            
-            for (const log of logsData.result) {
-              if (log.topics && log.topics[2]) {
-                const spender = ('0x' + log.topics[2].slice(-40)).toLowerCase();
-                // Get the most recent timestamp for each spender
-                const logTimestamp = parseInt(log.timeStamp, 16) || parseInt(log.timeStamp, 10) || 0;
-                const existingTimestamp = spenderTimestamps.get(spender) || 0;
-                if (logTimestamp > existingTimestamp) {
-                  spenderTimestamps.set(spender, logTimestamp);
-                }
-              }
-            }
-
-            const contract = new Contract(token.contractAddress, ERC20_ABI, provider);
-            const decimals = token.decimals || 18;
-            
-            for (const [spender, timestamp] of Array.from(spenderTimestamps.entries())) {
-              try {
-                const allowance = await contract.allowance(account, spender);
-                if (allowance > BigInt(0)) {
-                  const allowanceFormatted = parseFloat(formatUnits(allowance, decimals));
-                  const tokenPrice = getTokenPrice(token.symbol || '???');
-                  const valueAtRisk = allowanceFormatted * tokenPrice;
-                  // Consider unlimited if value exceeds 1 trillion or max uint256 threshold
-                  const isUnlimited = valueAtRisk > 1e12 || allowanceFormatted > 1e15;
-                  const displayValue = isUnlimited ? Infinity : valueAtRisk;
-                  
-                  found.push({
-                    id: `${token.contractAddress}-${spender}`,
-                    tokenAddress: token.contractAddress,
-                    tokenName: token.name || 'Unknown',
-                    tokenSymbol: token.symbol || '???',
-                    spenderAddress: spender,
-                    allowance: formatUnits(allowance, decimals),
-                    valueAtRisk: displayValue,
-                    balance: token.balance || '0',
-                    isUnlimited,
-                    approvalTimestamp: timestamp
-                  });
-                }
-              } catch (e) {
-                console.error('Allowance check failed:', e);
-              }
-            }
-          }
-        } catch (e) {
-          console.error(`Error scanning ${token.contractAddress}:`, e);
-        }
+      const [response, nftResponse, permit2Response] = await Promise.all([
+        fetch(`/api/approvals?wallet=${account}`),
+        fetch(`/api/approvals/nft?wallet=${account}`),
+        fetch(`/api/approvals/permit2?wallet=${account}`)
+      ]);
+      if (!response.ok) throw new Error('Failed to scan approvals');
+      const approvals: DetectedApproval[] = await response.json();
+      const metas = [readScanMeta(response)];
+      if (nftResponse.ok) {
+        setNftApprovals(await nftResponse.json());
+        metas.push(readScanMeta(nftResponse));
       }
+      if (permit2Response.ok) {
+        setPermit2Allowances(await permit2Response.json());
+        metas.push(readScanMeta(permit2Response));
+      }
+      setApprovalsMeta(mergeScanMeta(metas));
 
-      // Sort by approval timestamp - most recent first
-      found.sort((a, b) => (b.approvalTimestamp || 0) - (a.approvalTimestamp || 0));
+      const found = approvals.map(withRiskValue);
       setDetectedApprovals(found);
       
       if (found.length > 0) {
@@ -219,14 +218,32 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
   };
 
   const recordRevokeToServer = async (approval: DetectedApproval, txHash?: string) => {
+    await postRevoke({
+      tokenAddress: approval.tokenAddress,
+      tokenSymbol: approval.tokenSymbol,
+      spenderAddress: approval.spenderAddress
+    }, txHash);
+  };
+
+  const recordNftRevokeToServer = async (approval: DetectedNftApproval, txHash?: string) => {
+    await postRevoke({
+      tokenAddress: approval.collectionAddress,
+      tokenSymbol: approval.collectionSymbol,
+      spenderAddress: approval.operatorAddress
+    }, txHash);
+  };
+
+  // The server checks the transaction and values the revoke from it, so nothing is recorded without one
+  const postRevoke = async (
+    revoke: { tokenAddress: string; tokenSymbol: string; spenderAddress: string },
+    txHash?: string
+  ) => {
+    if (!txHash) return;
     try {
       await apiRequest('POST', '/api/revoke', {
         walletAddress: account,
-        tokenAddress: approval.tokenAddress,
-        tokenSymbol: approval.tokenSymbol,
-        spenderAddress: approval.spenderAddress,
-        valueSecured: (approval.valueAtRisk && isFinite(approval.valueAtRisk) ? approval.valueAtRisk : 0).toFixed(2),
-        txHash: txHash || null
+        ...revoke,
+        txHash
       });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       onStatsUpdate?.();
@@ -236,6 +253,7 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
   };
 
   const handleRevokeDetected = async (approval: DetectedApproval) => {
+    if (readOnly) return;
     if (!window.ethereum || !account) {
       toast({ title: "Wallet Not Connected", variant: "destructive" });
       return;
@@ -281,9 +299,97 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
     });
   };
 
-  const handleBatchRevokeDetected = async () => {
-    const toRevoke = detectedApprovals.filter(a => selectedIds.has(a.id));
+  const handleRevokeNft = async (approval: DetectedNftApproval) => {
+    if (readOnly) return;
+    if (!window.ethereum || !account) {
+      toast({ title: "Wallet Not Connected", variant: "destructive" });
+      return;
+    }
+
+    setRevokingIds(prev => new Set(prev).add(approval.id));
+
+    try {
+      await switchNetwork();
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const contract = new Contract(approval.collectionAddress, NFT_ABI, signer);
+      // Operators are revoked collection-wide; single-token approvals are cleared by approving the zero address
+      const tx = approval.tokenId
+        ? await contract.approve(ZeroAddress, approval.tokenId)
+        : await contract.setApprovalForAll(approval.operatorAddress, false);
+
+      toast({ title: "Transaction Sent", description: "Confirm in wallet" });
+      const receipt = await tx.wait();
+
+      await recordNftRevokeToServer(approval, receipt?.hash);
+
+      toast({ title: "Revoked", description: `${approval.collectionSymbol} approval revoked` });
+      setNftApprovals(prev => prev.filter(a => a.id !== approval.id));
+    } catch (err: any) {
+      if (err.code === 4001 || err.code === 'ACTION_REJECTED') {
+        toast({ title: "Cancelled", description: "Transaction was cancelled", variant: "destructive" });
+      } else {
+        toast({ title: "Failed", description: err.message, variant: "destructive" });
+      }
+    } finally {
+      setRevokingIds(prev => {
+        const next = new Set(prev);
+        next.delete(approval.id);
+        return next;
+      });
+    }
+  };
+
+  const handlePermit2Lockdown = () => lockdownPermit2(permit2Allowances);
+
+  const lockdownPermit2 = async (allowances: Permit2Allowance[]) => {
+    if (allowances.length === 0) return;
+    if (readOnly) return;
+    if (!window.ethereum || !account) {
+      toast({ title: "Wallet Not Connected", variant: "destructive" });
+      return;
+    }
+
+    setIsLockingDown(true);
+
+    try {
+      await switchNetwork();
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const permit2 = new Contract(PERMIT2_ADDRESS, PERMIT2_ABI, signer);
+      // A single lockdown call zeroes every listed token/spender pair
+      const tx = await permit2.lockdown(allowances.map(a => ({ token: a.tokenAddress, spender: a.spenderAddress })));
+
+      toast({ title: "Transaction Sent", description: "Confirm in wallet" });
+      const receipt = await tx.wait();
+
+      for (const allowance of allowances) {
+        await postRevoke({
+          tokenAddress: allowance.tokenAddress,
+          tokenSymbol: allowance.tokenSymbol,
+          spenderAddress: allowance.spenderAddress
+        }, receipt?.hash);
+      }
+
+      toast({ title: "Locked Down", description: `Revoked ${allowances.length} Permit2 allowance(s)` });
+      const lockedIds = new Set(allowances.map(a => a.id));
+      setPermit2Allowances(prev => prev.filter(a => !lockedIds.has(a.id)));
+    } catch (err: any) {
+      if (err.code === 4001 || err.code === 'ACTION_REJECTED') {
+        toast({ title: "Cancelled", description: "Transaction was cancelled", variant: "destructive" });
+      } else {
+        toast({ title: "Lockdown Failed", description: err.message, variant: "destructive" });
+      }
+    } finally {
+      setIsLockingDown(false);
+    }
+  };
+
+  const handleBatchRevokeDetected = () => revokeDetectedBatch(detectedApprovals.filter(a => selectedIds.has(a.id)));
+
+  const revokeDetectedBatch = async (toRevoke: DetectedApproval[]) => {
     if (toRevoke.length === 0) return;
+    if (readOnly) return;
     if (!window.ethereum || !account) {
       toast({ title: "Wallet Not Connected", variant: "destructive" });
       return;
@@ -314,7 +420,7 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
       
       toast({ title: "Batch Complete", description: `Revoked ${success}/${toRevoke.length}` });
       setDetectedApprovals(prev => prev.filter(a => !revokedIds.includes(a.id)));
-      setSelectedIds(new Set());
+      setSelectedIds(prev => new Set(Array.from(prev).filter(id => !revokedIds.includes(id))));
       
     } catch (err: any) {
       toast({ title: "Batch Failed", description: err.message, variant: "destructive" });
@@ -323,50 +429,154 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
     }
   };
 
+  const flaggedApprovals = detectedApprovals.filter(a => a.flaggedBy);
+  const flaggedNftApprovals = nftApprovals.filter(a => a.flaggedBy);
+  const flaggedPermit2 = permit2Allowances.filter(a => a.flaggedBy);
+  const flaggedCount = flaggedApprovals.length + flaggedNftApprovals.length + flaggedPermit2.length;
+
+  // One-click response to a blocklisted spender: every flagged approval of every kind, in turn
+  const handleRevokeFlagged = async () => {
+    setIsRevokingFlagged(true);
+    try {
+      await revokeDetectedBatch(flaggedApprovals);
+      for (const approval of flaggedNftApprovals) {
+        await handleRevokeNft(approval);
+      }
+      await lockdownPermit2(flaggedPermit2);
+    } finally {
+      setIsRevokingFlagged(false);
+    }
+  };
+
   const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+  const renderFlagged = (flaggedBy: string[] | undefined, testId: string) => {
+    if (!flaggedBy) return null;
+    return (
+      <span className="flex items-center gap-1 mt-1 text-[10px] font-mono font-bold uppercase text-red-400" title={`Listed by ${flaggedBy.join(', ')}`} data-testid={testId}>
+        <Skull className="h-3 w-3" /> Blocklisted
+      </span>
+    );
+  };
+
+  const renderScanMeta = (meta: ScanMeta | null, testId: string, exportPath: string) => {
+    if (!meta) return null;
+    const sources = meta.sources.map(source => SOURCE_LABELS[source] || source).join(' + ');
+    return (
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2 text-[10px] font-mono uppercase tracking-wide" data-testid={testId}>
+          <span className="text-muted-foreground">Source: {sources || '-'}</span>
+          {meta.blockNumber !== undefined && <span className="text-muted-foreground">· Block {meta.blockNumber.toLocaleString()}</span>}
+          {meta.partial && (
+            <span className="flex items-center gap-1 text-orange-400">
+              <AlertTriangle className="h-3 w-3" /> Partial results - some history could not be read
+            </span>
+          )}
+        </div>
+        {account && <ExportMenu path={exportPath} account={account} testId={`${testId}-export`} />}
+      </div>
+    );
+  };
   
-  const formatBalance = (balance: string) => {
-    const num = parseFloat(balance);
-    if (num === 0) return '0';
-    if (num < 0.0001) return '<0.0001';
-    if (num < 1) return num.toFixed(4);
-    if (num < 1000) return num.toFixed(2);
-    if (num < 1000000) return `${(num / 1000).toFixed(2)}K`;
-    return `${(num / 1000000).toFixed(2)}M`;
+  const renderRisk = (risk: SpenderRisk | undefined, testId: string) => {
+    if (!risk) return <span className="text-xs font-mono text-muted-foreground">-</span>;
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className={`inline-flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold uppercase cursor-help ${RISK_STYLES[risk.level]}`} data-testid={testId}>
+            {risk.level} · {risk.score}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          {risk.reasons.length === 0 ? (
+            <p className="text-xs">No risk signals found</p>
+          ) : (
+            <ul className="text-xs space-y-1">
+              {risk.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
+  // Unscored approvals sort last in either direction
+  const sortedApprovals = riskSort === null ? detectedApprovals : [...detectedApprovals].sort((a, b) => {
+    if (!a.risk || !b.risk) return (a.risk ? 0 : 1) - (b.risk ? 0 : 1);
+    return riskSort === 'desc' ? b.risk.score - a.risk.score : a.risk.score - b.risk.score;
+  });
+
+  const toggleRiskSort = () => {
+    setRiskSort(prev => prev === null ? 'desc' : prev === 'desc' ? 'asc' : null);
+  };
+
+  const formatAmount = (raw: string | undefined, decimals: number) => {
+    return raw === undefined ? '-' : formatTokenAmount(raw, decimals);
+  };
+
+  const renderAllowance = (amount: string, decimals: number, allowanceClass: AllowanceClass, testId: string) => {
+    if (allowanceClass === 'unlimited') {
+      return (
+        <div className="flex items-center gap-1.5 px-2 py-1 rounded bg-orange-500/20 border border-orange-500/30 w-fit" data-testid={`badge-unlimited-${testId}`}>
+          <AlertTriangle className="h-3 w-3 text-orange-500 animate-pulse" />
+          <span className="text-xs font-bold text-orange-400 uppercase">Unlimited</span>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center gap-1.5">
+        <span className="text-sm font-mono text-white" data-testid={`text-approved-${testId}`}>
+          {formatAmount(amount, decimals)}
+        </span>
+        {allowanceClass !== 'bounded' && (
+          <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase ${ALLOWANCE_CLASS_STYLES[allowanceClass].className}`} data-testid={`badge-${allowanceClass}-${testId}`}>
+            {ALLOWANCE_CLASS_STYLES[allowanceClass].label}
+          </span>
+        )}
+      </div>
+    );
   };
 
   const formatValueAtRisk = (value: number | undefined) => {
     if (value === undefined) return '-';
     if (!isFinite(value)) return 'Unlimited';
+    if (value === 0) return '$0';
     if (value < 0.01) return '<$0.01';
     if (value < 1000) return `$${value.toFixed(2)}`;
     if (value < 1000000) return `$${(value / 1000).toFixed(2)}K`;
     return `$${(value / 1000000).toFixed(2)}M`;
   };
 
-  const getTotalValueAtRisk = () => {
-    const total = detectedApprovals.reduce((sum, a) => {
-      if (a.valueAtRisk === undefined || !isFinite(a.valueAtRisk)) return sum;
-      return sum + a.valueAtRisk;
-    }, 0);
-    return formatValueAtRisk(total);
-  };
+  const exposure = walletExposure(detectedApprovals);
 
   const getUnlimitedCount = () => {
     return detectedApprovals.filter(a => a.isUnlimited).length;
   };
 
-  const formatAllowance = (allowance: string | undefined, isUnlimited: boolean | undefined) => {
-    if (isUnlimited) return 'Unlimited';
-    if (!allowance) return '-';
-    const num = parseFloat(allowance);
-    if (num === 0) return '0';
-    if (num < 0.0001) return '<0.0001';
-    if (num < 1) return num.toFixed(4);
-    if (num < 1000) return num.toFixed(2);
-    if (num < 1000000) return `${(num / 1000).toFixed(2)}K`;
-    if (num < 1000000000) return `${(num / 1000000).toFixed(2)}M`;
-    return `${(num / 1000000000).toFixed(2)}B`;
+  const getAboveSupplyCount = () => {
+    return detectedApprovals.filter(a => a.allowanceClass === 'exceeds-supply').length;
+  };
+
+  const getNoBalanceCount = () => {
+    return detectedApprovals.filter(a => a.hasBalance === false).length;
+  };
+
+  const getUnpricedCount = () => {
+    return detectedApprovals.filter(a => !a.price).length;
+  };
+
+  const getDormantCount = () => {
+    return detectedApprovals.filter(a => a.isDormant).length;
+  };
+
+
+  const formatExpiration = (expiration: number) => {
+    const diff = expiration - Math.floor(Date.now() / 1000);
+    if (diff <= 0) return 'Expired';
+    if (diff < 3600) return `in ${Math.floor(diff / 60)} minutes`;
+    if (diff < 86400) return `in ${Math.floor(diff / 3600)} hours`;
+    if (diff < 31536000) return `in ${Math.floor(diff / 86400)} days`;
+    return `in ${Math.floor(diff / 31536000)} years`;
   };
 
   const formatRelativeTime = (timestamp: number | undefined) => {
@@ -383,6 +593,33 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
     return `${Math.floor(diff / 31536000)} years ago`;
   };
 
+  const formatPrice = (price: number) => price >= 1 ? `$${price.toFixed(2)}` : `$${price.toPrecision(3)}`;
+
+  // Effective value of one approval with the price it was derived from; unpriced tokens are never guessed
+  const renderValue = (approval: DetectedApproval) => {
+    if (!approval.price) {
+      return <span className="block text-[10px] font-mono text-muted-foreground" data-testid={`text-unpriced-${approval.id}`}>No price</span>;
+    }
+    const { price } = approval;
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className={`block text-[10px] font-mono cursor-help ${price.stale ? 'text-yellow-400' : 'text-muted-foreground'}`} data-testid={`text-value-${approval.id}`}>
+            ≈ {formatValueAtRisk(approval.exposureUsd)} exposed · {price.source}{price.stale ? ' · stale' : ''}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <ul className="text-xs space-y-1">
+            <li>{formatPrice(price.priceUsd)} per {approval.tokenSymbol}</li>
+            <li>Worst case (full allowance): {formatValueAtRisk(approval.valueAtRisk)}</li>
+            <li>{PRICE_SOURCE_LABELS[price.source]}{price.detail ? ` (${price.detail})` : ''}</li>
+            <li>{price.source === 'dex' ? 'Pool last traded' : 'Set'} {formatRelativeTime(price.updatedAt)}{price.stale ? ' - stale' : ''}</li>
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center py-20 text-center space-y-4">
@@ -406,7 +643,46 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
 
   return (
     <Tabs defaultValue="detected" className="w-full">
-      {wrongNetwork && account && (
+      {readOnly && (
+        <div className="mb-4 p-4 rounded-lg bg-primary/10 border border-primary/30 flex items-center gap-3" data-testid="notice-watch-only">
+          <Eye className="text-primary h-5 w-5 shrink-0" />
+          <div className="flex-1">
+            <span className="text-primary font-bold text-sm">Watch-Only</span>
+            <p className="text-muted-foreground text-xs font-mono break-all">Viewing {account} - revoking is disabled</p>
+            {isOwnWallet && (
+              <p className="text-xs text-white mt-1" data-testid="hint-open-connected">
+                This is your connected wallet.{' '}
+                <Link href="/" className="text-primary underline" data-testid="link-open-connected">Open in connected wallet</Link> to revoke.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+      {flaggedCount > 0 && (
+        <div className="mb-4 p-4 rounded-lg bg-red-500/20 border border-red-500/50 flex items-center gap-3 flex-wrap" data-testid="alert-blocklisted">
+          <Skull className="text-red-500 h-6 w-6 shrink-0 animate-pulse" />
+          <div className="flex-1 min-w-[200px]">
+            <span className="text-red-400 font-bold text-sm uppercase">Critical: Known Malicious Spender</span>
+            <p className="text-red-300/80 text-xs">
+              {flaggedCount} active approval{flaggedCount > 1 ? 's' : ''} to blocklisted addresses
+              ({Array.from(new Set([...flaggedApprovals, ...flaggedNftApprovals, ...flaggedPermit2].flatMap(a => a.flaggedBy || []))).join(', ')}).
+              Revoke immediately.
+            </p>
+          </div>
+          {!readOnly && (
+            <Button 
+              onClick={handleRevokeFlagged}
+              disabled={isRevokingFlagged || wrongNetwork}
+              className="bg-red-500 text-white hover:bg-red-600 font-bold"
+              data-testid="button-revoke-flagged"
+            >
+              {isRevokingFlagged ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldOff className="mr-2 h-4 w-4" />}
+              Revoke All Flagged ({flaggedCount})
+            </Button>
+          )}
+        </div>
+      )}
+      {!readOnly && wrongNetwork && account && (
         <div className="mb-4 p-4 rounded-lg bg-red-500/10 border border-red-500/30 flex items-center gap-3" data-testid="warning-wrong-network">
           <AlertTriangle className="text-red-500 h-5 w-5 shrink-0" />
           <div className="flex-1">
@@ -420,16 +696,29 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
           <TabsTrigger value="detected" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-detected">
             Detect ({detectedApprovals.length}) {isScanning && <Loader2 className="ml-1 h-3 w-3 animate-spin" />}
           </TabsTrigger>
+          <TabsTrigger value="nft" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-nft">
+            NFT ({nftApprovals.length})
+          </TabsTrigger>
+          <TabsTrigger value="permit2" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-permit2">
+            Permit2 ({permit2Allowances.length})
+          </TabsTrigger>
           <TabsTrigger value="tokens" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-my-tokens">
             My Tokens ({tokens.length})
           </TabsTrigger>
+          <TabsTrigger value="history" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-history">
+            History
+          </TabsTrigger>
         </TabsList>
-        <Button variant="ghost" onClick={fetchTokens} className="text-muted-foreground hover:text-primary gap-2" data-testid="button-refresh">
-          <RefreshCw size={14} /> Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <GenerateReportButton account={account} />
+          <Button variant="ghost" onClick={fetchTokens} className="text-muted-foreground hover:text-primary gap-2" data-testid="button-refresh">
+            <RefreshCw size={14} /> Refresh
+          </Button>
+        </div>
       </div>
 
       <TabsContent value="detected" className="space-y-4">
+        {renderScanMeta(approvalsMeta, 'text-scan-source-approvals', '/api/approvals')}
         {detectedApprovals.length > 0 && (
           <div className="glass-panel p-4 rounded-lg flex items-center justify-between flex-wrap gap-4">
             <div className="flex items-center gap-3">
@@ -437,8 +726,11 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                 <DollarSign className="text-red-400 h-5 w-5" />
               </div>
               <div>
-                <span className="text-xs font-mono uppercase text-muted-foreground">Total Value at Risk</span>
-                <p className="text-xl font-display font-bold text-red-400" data-testid="text-total-risk">{getTotalValueAtRisk()}</p>
+                <span className="text-xs font-mono uppercase text-muted-foreground">Effective Exposure</span>
+                <p className="text-xl font-display font-bold text-red-400" data-testid="text-total-risk">{formatValueAtRisk(exposure.effectiveUsd)}</p>
+                <p className="text-[10px] font-mono text-muted-foreground uppercase tracking-wide" data-testid="text-worst-case-risk">
+                  Worst case (full allowances): {formatValueAtRisk(exposure.worstCaseUsd)}
+                </p>
                 {getUnlimitedCount() > 0 && (
                   <div className="flex items-center gap-1.5 mt-1" data-testid="warning-unlimited">
                     <AlertTriangle className="h-3 w-3 text-orange-500 animate-pulse" />
@@ -447,12 +739,53 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                     </span>
                   </div>
                 )}
+                {getAboveSupplyCount() > 0 && (
+                  <div className="flex items-center gap-1.5 mt-1" data-testid="warning-above-supply">
+                    <AlertTriangle className="h-3 w-3 text-red-400" />
+                    <span className="text-[10px] font-mono text-red-400 uppercase tracking-wide">
+                      {getAboveSupplyCount()} above the token's total supply - effectively unlimited
+                    </span>
+                  </div>
+                )}
+                {getDormantCount() > 0 && (
+                  <div className="flex items-center gap-1.5 mt-1" data-testid="warning-dormant">
+                    <Moon className="h-3 w-3 text-primary" />
+                    <span className="text-[10px] font-mono text-primary uppercase tracking-wide">
+                      {getDormantCount()} dormant approval{getDormantCount() > 1 ? 's' : ''} - safe to revoke
+                    </span>
+                    {!readOnly && (
+                      <button
+                        onClick={() => setSelectedIds(new Set(detectedApprovals.filter(a => a.isDormant).map(a => a.id)))}
+                        className="text-[10px] font-mono uppercase text-white underline hover:text-primary"
+                        data-testid="button-select-dormant"
+                      >
+                        Select
+                      </button>
+                    )}
+                  </div>
+                )}
+                {getUnpricedCount() > 0 && (
+                  <div className="flex items-center gap-1.5 mt-1" data-testid="warning-unpriced">
+                    <DollarSign className="h-3 w-3 text-muted-foreground" />
+                    <span className="text-[10px] font-mono text-muted-foreground uppercase tracking-wide">
+                      {getUnpricedCount()} without a known price - not included
+                    </span>
+                  </div>
+                )}
+                {getNoBalanceCount() > 0 && (
+                  <div className="flex items-center gap-1.5 mt-1" data-testid="warning-no-balance">
+                    <Coins className="h-3 w-3 text-muted-foreground" />
+                    <span className="text-[10px] font-mono text-muted-foreground uppercase tracking-wide">
+                      {getNoBalanceCount()} on tokens you don't hold - future deposits exposed
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
             {selectedIds.size > 0 && (
               <Button 
                 onClick={handleBatchRevokeDetected} 
-                disabled={isBatchRevoking || wrongNetwork}
+                disabled={isBatchRevoking || revokeDisabled}
                 className="bg-primary text-black hover:bg-primary/90 font-bold"
                 data-testid="button-batch-revoke-detected"
               >
@@ -481,6 +814,7 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                   <TableHead className="w-[50px]">
                     <Checkbox 
                       checked={selectedIds.size === detectedApprovals.length && detectedApprovals.length > 0}
+                      disabled={readOnly}
                       onCheckedChange={() => {
                         if (selectedIds.size === detectedApprovals.length) {
                           setSelectedIds(new Set());
@@ -495,16 +829,25 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                   <TableHead className="text-muted-foreground font-mono uppercase text-xs">Your Balance</TableHead>
                   <TableHead className="text-muted-foreground font-mono uppercase text-xs">Approved</TableHead>
                   <TableHead className="text-muted-foreground font-mono uppercase text-xs">Approval Time</TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Last Used</TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Total Pulled</TableHead>
                   <TableHead className="text-muted-foreground font-mono uppercase text-xs">Spender</TableHead>
-                  <TableHead className="w-[100px]"></TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">
+                    <button onClick={toggleRiskSort} className="flex items-center gap-1 uppercase hover:text-primary" data-testid="button-sort-risk">
+                      Risk
+                      {riskSort === 'desc' ? <ArrowDown className="h-3 w-3" /> : riskSort === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowUpDown className="h-3 w-3" />}
+                    </button>
+                  </TableHead>
+                  <TableHead className="w-[140px]"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {detectedApprovals.map((approval) => (
+                {sortedApprovals.map((approval) => (
                   <TableRow key={approval.id} className="border-white/5 hover:bg-white/5">
                     <TableCell>
                       <Checkbox 
                         checked={selectedIds.has(approval.id)}
+                        disabled={readOnly}
                         onCheckedChange={() => {
                           const next = new Set(selectedIds);
                           if (next.has(approval.id)) next.delete(approval.id);
@@ -516,8 +859,12 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
-                        <div className={`h-8 w-8 rounded-full flex items-center justify-center border ${approval.isUnlimited ? 'bg-orange-500/20 text-orange-500 border-orange-500/30' : 'bg-red-500/10 text-red-500 border-red-500/20'}`}>
-                          <AlertTriangle size={14} />
+                        <div className={`h-8 w-8 rounded-full flex items-center justify-center border overflow-hidden ${approval.isUnlimited ? 'bg-orange-500/20 text-orange-500 border-orange-500/30' : 'bg-red-500/10 text-red-500 border-red-500/20'}`}>
+                          {approval.tokenLogoUri ? (
+                            <img src={approval.tokenLogoUri} alt={approval.tokenSymbol} className="h-full w-full object-cover" />
+                          ) : (
+                            <AlertTriangle size={14} />
+                          )}
                         </div>
                         <div>
                           <span className="text-sm font-medium text-white">{approval.tokenSymbol}</span>
@@ -526,39 +873,155 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                       </div>
                     </TableCell>
                     <TableCell>
-                      <span className="text-sm font-mono text-primary font-bold" data-testid={`text-balance-${approval.id}`}>
-                        {formatBalance(approval.balance || '0')}
+                      {approval.hasBalance === false ? (
+                        <span className="text-[10px] font-mono uppercase text-muted-foreground px-2 py-1 rounded border border-white/10 bg-white/5" data-testid={`badge-no-balance-${approval.id}`}>
+                          No current balance
+                        </span>
+                      ) : (
+                        <span className="text-sm font-mono text-primary font-bold" data-testid={`text-balance-${approval.id}`}>
+                          {formatAmount(approval.balance, approval.decimals)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {renderAllowance(approval.allowance, approval.decimals, approval.allowanceClass, approval.id)}
+                      {renderValue(approval)}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-xs font-mono text-muted-foreground" data-testid={`text-time-${approval.id}`}>
+                        {formatRelativeTime(approval.approvalTimestamp)}
                       </span>
                     </TableCell>
                     <TableCell>
-                      <div className="flex items-center gap-1.5">
-                        {approval.isUnlimited ? (
-                          <div className="flex items-center gap-1.5 px-2 py-1 rounded bg-orange-500/20 border border-orange-500/30" data-testid={`badge-unlimited-${approval.id}`}>
-                            <AlertTriangle className="h-3 w-3 text-orange-500 animate-pulse" />
-                            <span className="text-xs font-bold text-orange-400 uppercase">Unlimited</span>
-                          </div>
-                        ) : (
-                          <span className="text-sm font-mono text-white" data-testid={`text-approved-${approval.id}`}>
-                            {formatAllowance(approval.allowance, approval.isUnlimited)}
+                      <span className="text-xs font-mono text-muted-foreground" data-testid={`text-last-used-${approval.id}`}>
+                        {approval.lastUsedTimestamp ? formatRelativeTime(approval.lastUsedTimestamp) : approval.totalPulled !== undefined ? 'Never' : '-'}
+                      </span>
+                      {approval.isDormant && (
+                        <span className="flex items-center gap-1 mt-1 text-[10px] font-mono uppercase text-primary" data-testid={`badge-dormant-${approval.id}`}>
+                          <Moon className="h-3 w-3" /> Dormant
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm font-mono text-white" data-testid={`text-pulled-${approval.id}`}>
+                        {formatAmount(approval.totalPulled, approval.decimals)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <SpenderLabel label={approval.spenderLabel} testId={`label-spender-${approval.id}`} />
+                      <span className={approval.spenderLabel ? "text-[10px] font-mono text-muted-foreground" : "text-sm font-mono text-white"}>{formatAddress(approval.spenderAddress)}</span>
+                      {approval.spenderAddress.toLowerCase() === PERMIT2_ADDRESS.toLowerCase() && (
+                        <span className="block text-[10px] text-primary font-mono uppercase" data-testid={`text-permit2-${approval.id}`}>
+                          Permit2 · {permit2Allowances.filter(p => p.tokenAddress === approval.tokenAddress.toLowerCase()).length} sub-allowance(s)
+                        </span>
+                      )}
+                      {renderFlagged(approval.flaggedBy, `badge-blocklisted-${approval.id}`)}
+                    </TableCell>
+                    <TableCell>
+                      {renderRisk(approval.risk, `badge-risk-${approval.id}`)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button 
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setHistoryApproval(approval)}
+                          className="h-8 w-8 p-0 text-muted-foreground hover:text-primary"
+                          title="Allowance history"
+                          data-testid={`button-history-${approval.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button 
+                          size="sm"
+                          onClick={() => handleRevokeDetected(approval)}
+                          disabled={revokingIds.has(approval.id) || revokeDisabled}
+                          className="bg-primary text-black hover:bg-primary/90 h-8 font-bold"
+                          data-testid={`button-revoke-${approval.id}`}
+                        >
+                          {revokingIds.has(approval.id) ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <AllowanceHistory account={account} approval={historyApproval} onClose={() => setHistoryApproval(null)} />
+      </TabsContent>
+
+      <TabsContent value="nft" className="space-y-4">
+        {nftApprovals.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center space-y-4">
+            <div className="h-14 w-14 rounded-full bg-green-500/10 flex items-center justify-center border border-green-500/20">
+              <ShieldOff size={28} className="text-green-500" />
+            </div>
+            <h3 className="text-xl font-display font-bold text-white">No NFT Approvals Detected</h3>
+            <p className="text-muted-foreground text-sm max-w-md">
+              {isScanning ? "Scanning blockchain..." : "No operator can move your NFTs"}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-md border border-white/10 bg-card/40 backdrop-blur-sm overflow-hidden">
+            <Table>
+              <TableHeader className="bg-black/40">
+                <TableRow className="border-white/5 hover:bg-transparent">
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Collection</TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Scope</TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Approval Time</TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Operator</TableHead>
+                  <TableHead className="text-muted-foreground font-mono uppercase text-xs">Risk</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {nftApprovals.map((approval) => (
+                  <TableRow key={approval.id} className="border-white/5 hover:bg-white/5" data-testid={`row-nft-${approval.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="h-8 w-8 rounded-full bg-orange-500/20 text-orange-500 border border-orange-500/30 flex items-center justify-center">
+                          <Image size={14} />
+                        </div>
+                        <div>
+                          <span className="text-sm font-medium text-white">{approval.collectionName}</span>
+                          <span className="block text-[10px] text-muted-foreground font-mono">
+                            {approval.standard !== 'unknown' ? `${approval.standard} · ` : ''}{formatAddress(approval.collectionAddress)}
                           </span>
-                        )}
+                        </div>
                       </div>
                     </TableCell>
                     <TableCell>
-                      <span className="text-xs font-mono text-muted-foreground" data-testid={`text-time-${approval.id}`}>
+                      {approval.tokenId ? (
+                        <span className="text-sm font-mono text-white" data-testid={`text-nft-scope-${approval.id}`}>Token #{approval.tokenId}</span>
+                      ) : (
+                        <div className="flex items-center gap-1.5 px-2 py-1 rounded bg-orange-500/20 border border-orange-500/30 w-fit" data-testid={`badge-all-${approval.id}`}>
+                          <AlertTriangle className="h-3 w-3 text-orange-500 animate-pulse" />
+                          <span className="text-xs font-bold text-orange-400 uppercase">All Items</span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-xs font-mono text-muted-foreground">
                         {formatRelativeTime(approval.approvalTimestamp)}
                       </span>
                     </TableCell>
                     <TableCell>
-                      <span className="text-sm font-mono text-white">{formatAddress(approval.spenderAddress)}</span>
+                      <SpenderLabel label={approval.operatorLabel} testId={`label-operator-${approval.id}`} />
+                      <span className={approval.operatorLabel ? "text-[10px] font-mono text-muted-foreground" : "text-sm font-mono text-white"}>{formatAddress(approval.operatorAddress)}</span>
+                      {renderFlagged(approval.flaggedBy, `badge-blocklisted-nft-${approval.id}`)}
+                    </TableCell>
+                    <TableCell>
+                      {renderRisk(approval.risk, `badge-risk-nft-${approval.id}`)}
                     </TableCell>
                     <TableCell>
                       <Button 
                         size="sm"
-                        onClick={() => handleRevokeDetected(approval)}
-                        disabled={revokingIds.has(approval.id) || wrongNetwork}
+                        onClick={() => handleRevokeNft(approval)}
+                        disabled={revokingIds.has(approval.id) || revokeDisabled}
                         className="bg-primary text-black hover:bg-primary/90 h-8 font-bold"
-                        data-testid={`button-revoke-${approval.id}`}
+                        data-testid={`button-revoke-nft-${approval.id}`}
                       >
                         {revokingIds.has(approval.id) ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
                       </Button>
@@ -571,7 +1034,80 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
         )}
       </TabsContent>
 
+      <TabsContent value="permit2" className="space-y-4">
+        {permit2Allowances.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center space-y-4">
+            <div className="h-14 w-14 rounded-full bg-green-500/10 flex items-center justify-center border border-green-500/20">
+              <ShieldOff size={28} className="text-green-500" />
+            </div>
+            <h3 className="text-xl font-display font-bold text-white">No Permit2 Allowances</h3>
+            <p className="text-muted-foreground text-sm max-w-md">
+              {isScanning ? "Scanning blockchain..." : "No spender holds an active Permit2 allowance"}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="glass-panel p-4 rounded-lg flex items-center justify-between flex-wrap gap-4">
+              <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded-full bg-orange-500/20 flex items-center justify-center border border-orange-500/30">
+                  <Lock className="text-orange-400 h-5 w-5" />
+                </div>
+                <div>
+                  <span className="text-xs font-mono uppercase text-muted-foreground">Permit2 Sub-Allowances</span>
+                  <p className="text-xs text-muted-foreground">Spenders that can pull tokens through your Permit2 approval</p>
+                </div>
+              </div>
+              <Button 
+                onClick={handlePermit2Lockdown} 
+                disabled={isLockingDown || revokeDisabled}
+                className="bg-primary text-black hover:bg-primary/90 font-bold"
+                data-testid="button-permit2-lockdown"
+              >
+                {isLockingDown ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldOff className="mr-2 h-4 w-4" />}
+                Lockdown All ({permit2Allowances.length})
+              </Button>
+            </div>
+            <div className="rounded-md border border-white/10 bg-card/40 backdrop-blur-sm overflow-hidden">
+              <Table>
+                <TableHeader className="bg-black/40">
+                  <TableRow className="border-white/5 hover:bg-transparent">
+                    <TableHead className="text-muted-foreground font-mono uppercase text-xs">Token</TableHead>
+                    <TableHead className="text-muted-foreground font-mono uppercase text-xs">Amount</TableHead>
+                    <TableHead className="text-muted-foreground font-mono uppercase text-xs">Expires</TableHead>
+                    <TableHead className="text-muted-foreground font-mono uppercase text-xs">Spender</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {permit2Allowances.map((allowance) => (
+                    <TableRow key={allowance.id} className="border-white/5 hover:bg-white/5" data-testid={`row-permit2-${allowance.id}`}>
+                      <TableCell>
+                        <span className="text-sm font-medium text-white">{allowance.tokenSymbol}</span>
+                        <span className="block text-[10px] text-muted-foreground font-mono">{formatAddress(allowance.tokenAddress)}</span>
+                      </TableCell>
+                      <TableCell>
+                        {renderAllowance(allowance.amount, allowance.decimals, allowance.allowanceClass, `permit2-${allowance.id}`)}
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-xs font-mono text-muted-foreground" data-testid={`text-permit2-expiration-${allowance.id}`}>
+                          {formatExpiration(allowance.expiration)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <SpenderLabel label={allowance.spenderLabel} testId={`label-permit2-spender-${allowance.id}`} />
+                        <span className={allowance.spenderLabel ? "text-[10px] font-mono text-muted-foreground" : "text-sm font-mono text-white"}>{formatAddress(allowance.spenderAddress)}</span>
+                        {renderFlagged(allowance.flaggedBy, `badge-blocklisted-permit2-${allowance.id}`)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </TabsContent>
+
       <TabsContent value="tokens" className="space-y-4">
+        {renderScanMeta(tokensMeta, 'text-scan-source-tokens', '/api/tokens')}
         {tokens.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-16 text-center space-y-4">
             <ShieldAlert size={32} className="text-primary" />
@@ -599,10 +1135,15 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
                         <span className="text-sm font-medium text-white">{token.name || "Unknown"}</span>
                       </div>
                     </TableCell>
-                    <TableCell className="font-mono text-sm text-white">{token.symbol}</TableCell>
+                    <TableCell className="font-mono text-sm text-white">
+                      <div className="flex items-center gap-2">
+                        {token.logoUri && <img src={token.logoUri} alt={token.symbol} className="h-5 w-5 rounded-full" />}
+                        {token.symbol}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <span className="font-mono text-sm text-primary font-bold" data-testid={`text-balance-${token.contractAddress}`}>
-                        {formatBalance(token.balance || '0')}
+                        {formatAmount(token.balance, token.decimals)}
                       </span>
                     </TableCell>
                     <TableCell className="font-mono text-xs text-muted-foreground">{formatAddress(token.contractAddress)}</TableCell>
@@ -613,6 +1154,10 @@ export function ApprovalList({ account, onStatsUpdate, wrongNetwork }: { account
           </div>
         )}
       </TabsContent>
+
+      <TabsContent value="history" className="space-y-4">
+        <RevokeHistoryList account={account} />
+      </TabsContent>
     </Tabs>
   );
 }
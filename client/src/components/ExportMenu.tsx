@@ -0,0 +1,25 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+// Download links for the ?format=csv|json form of a scan endpoint; the server re-scans and states the block it read
+export function ExportMenu({ path, account, testId }: { path: string; account: string; testId: string }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-primary gap-2" data-testid={testId}>
+          <Download size={14} /> Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-black/90 border-white/10">
+        {(['csv', 'json'] as const).map(format => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={`${path}?wallet=${account}&format=${format}`} download data-testid={`${testId}-${format}`}>
+              {format.toUpperCase()}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
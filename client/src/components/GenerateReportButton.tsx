@@ -0,0 +1,33 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { WalletReport } from "@shared/schema";
+
+// Freezes the wallet's current state into a shareable report and opens it
+export function GenerateReportButton({ account }: { account: string }) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await apiRequest('POST', '/api/reports', { wallet: account });
+      const report: WalletReport = await response.json();
+      setLocation(`/report/${report.id}`);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message || "Could not generate the report", variant: "destructive" });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" onClick={generate} disabled={isGenerating} className="text-muted-foreground hover:text-primary gap-2" data-testid="button-generate-report">
+      {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />} Generate report
+    </Button>
+  );
+}
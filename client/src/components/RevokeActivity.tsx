@@ -0,0 +1,68 @@
+import { Bar, BarChart, XAxis } from "recharts";
+import { Activity, Loader2 } from "lucide-react";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { GlobalRevokeStats } from "@shared/schema";
+
+const chartConfig = {
+  revokes: { label: "Revokes", color: "hsl(var(--primary))" },
+  wallets: { label: "Wallets", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Chain-wide revoke activity shown while no wallet is selected
+export function RevokeActivity({ stats, isLoading }: { stats?: GlobalRevokeStats; isLoading: boolean }) {
+  if (isLoading) {
+    return (
+      <div className="glass-panel rounded-xl p-6 mb-12 flex items-center justify-center h-[260px]">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (!stats) return null;
+
+  const coverage = stats.coverage;
+  const periodRevokes = stats.daily.reduce((sum, day) => sum + day.revokes, 0);
+
+  return (
+    <div className="glass-panel rounded-xl p-6 mb-12" data-testid="panel-revoke-activity">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-muted-foreground text-sm font-mono mb-2 flex items-center gap-2">
+            <Activity className="h-4 w-4 text-primary" /> REVOKE ACTIVITY ON ARC
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            {periodRevokes.toLocaleString()} revokes in the last {stats.daily.length} days
+          </p>
+        </div>
+        <div className="flex gap-8">
+          <div>
+            <p className="text-2xl font-display font-bold text-primary" data-testid="text-global-revokes">{stats.totalRevokes.toLocaleString()}</p>
+            <p className="text-[10px] font-mono text-muted-foreground">TOTAL REVOKES</p>
+          </div>
+          <div>
+            <p className="text-2xl font-display font-bold text-green-400" data-testid="text-unique-wallets">{stats.uniqueWallets.toLocaleString()}</p>
+            <p className="text-[10px] font-mono text-muted-foreground">UNIQUE WALLETS</p>
+          </div>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[180px] w-full">
+        <BarChart data={stats.daily} margin={{ left: 0, right: 0 }}>
+          <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+          <Bar dataKey="revokes" fill="var(--color-revokes)" radius={2} />
+          <Bar dataKey="wallets" fill="var(--color-wallets)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+
+      <p className="text-[10px] font-mono text-muted-foreground mt-4" data-testid="text-index-coverage">
+        {!coverage
+          ? 'Chain-wide index not running: counting revokes made through ArcRevoke and indexed wallets only.'
+          : coverage.complete
+            ? `Indexed from block ${coverage.fromBlock.toLocaleString()} through ${coverage.throughBlock.toLocaleString()}.`
+            : `Backfill in progress: blocks ${coverage.fromBlock.toLocaleString()}-${coverage.throughBlock.toLocaleString()} of ${coverage.headBlock.toLocaleString()} indexed, totals still growing.`}
+      </p>
+    </div>
+  );
+}
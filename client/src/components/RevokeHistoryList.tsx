@@ -0,0 +1,163 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { History, Loader2, ExternalLink } from "lucide-react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { SpenderLabel } from "@/components/SpenderLabel";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ARC_TESTNET } from "@/lib/arc-network";
+import { formatTokenAmount } from "@shared/allowance";
+import type { WalletRevoke, WalletRevokePage } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+const KIND_LABELS: Record<NonNullable<WalletRevoke['eventType']>, string> = {
+  Approval: 'ERC-20',
+  ApprovalForAll: 'NFT operator',
+  ERC721Approval: 'NFT',
+};
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+// "min(1.00K revoked, 250.00 held) × $1.00 (static)" when the revoke was valued from on-chain state
+const describeValuation = (revoke: WalletRevoke) => {
+  const valuation = revoke.valuation;
+  if (!valuation || valuation.revokedAmount === null) return null;
+  const decimals = valuation.tokenDecimals ?? 18;
+  const held = valuation.balanceAtRevoke ? formatTokenAmount(valuation.balanceAtRevoke, decimals) : '?';
+  const price = valuation.priceUsd ? `$${parseFloat(valuation.priceUsd).toFixed(2)} (${valuation.priceSource})` : 'no price';
+  return `min(${formatTokenAmount(valuation.revokedAmount, decimals)} revoked, ${held} held) × ${price}`;
+};
+
+// Every revoke of a wallet, newest first, loaded a page at a time from GET /api/revokes
+export function RevokeHistoryList({ account }: { account: string }) {
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<WalletRevokePage>({
+    queryKey: ['/api/revokes', account],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${pageParam}` : '';
+      const response = await fetch(`/api/revokes?wallet=${account}&limit=${PAGE_SIZE}${cursor}`);
+      if (!response.ok) throw new Error('Failed to fetch revoke history');
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const explorerUrl = ARC_TESTNET.blockExplorerUrls[0];
+  const revokes = data?.pages.flatMap(page => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (isError) {
+    return <p className="text-red-400 text-xs font-mono">Could not load the revoke history.</p>;
+  }
+  if (revokes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center space-y-4">
+        <History size={32} className="text-primary" />
+        <p className="text-muted-foreground">No revokes found for this wallet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] font-mono text-muted-foreground" data-testid="text-revoke-history-count">
+          Showing {revokes.length} of {total} revokes
+        </p>
+        <ExportMenu path="/api/revokes" account={account} testId="button-export-revokes" />
+      </div>
+      <div className="rounded-md border border-white/10 bg-card/40 backdrop-blur-sm overflow-hidden">
+        <Table>
+          <TableHeader className="bg-black/40">
+            <TableRow className="border-white/5 hover:bg-transparent">
+              <TableHead className="text-muted-foreground font-mono uppercase text-xs">Token</TableHead>
+              <TableHead className="text-muted-foreground font-mono uppercase text-xs">Spender</TableHead>
+              <TableHead className="text-muted-foreground font-mono uppercase text-xs">Value Secured</TableHead>
+              <TableHead className="text-muted-foreground font-mono uppercase text-xs">Time</TableHead>
+              <TableHead className="text-muted-foreground font-mono uppercase text-xs text-right">Tx</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {revokes.map((revoke) => {
+              const derivation = describeValuation(revoke);
+              return (
+                <TableRow key={revoke.id} className="border-white/5 hover:bg-white/5" data-testid={`row-revoke-${revoke.id}`}>
+                  <TableCell>
+                    <span className="text-sm font-medium text-white">{revoke.tokenSymbol}</span>
+                    <span className="block text-[10px] text-muted-foreground font-mono">
+                      {revoke.eventType ? KIND_LABELS[revoke.eventType] : 'Permit2'} · {formatAddress(revoke.tokenAddress)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <SpenderLabel label={revoke.spenderLabel} testId={`label-revoke-spender-${revoke.id}`} />
+                    <span className={revoke.spenderLabel ? "text-[10px] font-mono text-muted-foreground" : "text-sm font-mono text-white"}>{formatAddress(revoke.spenderAddress)}</span>
+                  </TableCell>
+                  <TableCell>
+                    {revoke.valueSecured === null ? (
+                      <span className="text-xs font-mono text-muted-foreground" data-testid={`text-revoke-value-${revoke.id}`}>Not valued yet</span>
+                    ) : derivation ? (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <span className="text-sm font-mono text-green-400 cursor-help" data-testid={`text-revoke-value-${revoke.id}`}>
+                            ${parseFloat(revoke.valueSecured).toFixed(2)}
+                          </span>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="text-xs font-mono">{derivation}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    ) : (
+                      <span className="text-sm font-mono text-muted-foreground" data-testid={`text-revoke-value-${revoke.id}`}>
+                        ${parseFloat(revoke.valueSecured).toFixed(2)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs font-mono text-muted-foreground">
+                    {revoke.timestamp ? new Date(revoke.timestamp * 1000).toLocaleString() : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {revoke.txHash ? (
+                      <a
+                        href={`${explorerUrl}/tx/${revoke.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+                        data-testid={`link-revoke-tx-${revoke.id}`}
+                      >
+                        {formatAddress(revoke.txHash)} <ExternalLink className="h-3 w-3" />
+                      </a>
+                    ) : (
+                      <span className="text-xs font-mono text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="ghost"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="text-muted-foreground hover:text-primary"
+            data-testid="button-load-more-revokes"
+          >
+            {isFetchingNextPage ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
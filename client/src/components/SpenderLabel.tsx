@@ -0,0 +1,21 @@
+import { BadgeCheck, Skull } from "lucide-react";
+import type { SpenderLabelInfo } from "@shared/schema";
+
+// Registry label of a spender / operator address: name, verified mark, project and category
+export function SpenderLabel({ label, testId }: { label?: SpenderLabelInfo | null; testId?: string }) {
+  if (!label) return null;
+  const isDrainer = label.category === "drainer";
+
+  return (
+    <span className="block" data-testid={testId}>
+      <span className={`flex items-center gap-1 text-xs font-medium ${isDrainer ? 'text-red-400' : 'text-white'}`}>
+        {isDrainer && <Skull className="h-3 w-3" />}
+        {label.name}
+        {label.verified && <BadgeCheck className="h-3 w-3 text-primary" aria-label="Verified label" />}
+      </span>
+      <span className="block text-[10px] font-mono uppercase text-muted-foreground">
+        {label.project ? `${label.project} · ` : ''}{label.category}
+      </span>
+    </span>
+  );
+}
@@ -1,13 +1,20 @@
 import { ConnectWallet } from "@/components/ConnectWallet";
 import { ApprovalList } from "@/components/ApprovalList";
-import { ShieldCheck, Search, Activity, Lock, FileCheck, X } from "lucide-react";
+import { SpenderLabel } from "@/components/SpenderLabel";
+import { RevokeActivity } from "@/components/RevokeActivity";
+import { ShieldCheck, Search, Activity, Lock, FileCheck, X, Eye, Trophy } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import generatedImage from '@assets/generated_images/futuristic_abstract_dark_crypto_background_with_neon_networks.png';
 import { useState, useEffect, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { JsonRpcProvider, Contract, formatUnits } from "ethers";
+import { Link, useLocation, useParams } from "wouter";
+import { JsonRpcProvider, Interface } from "ethers";
 import { ARC_TESTNET } from "@/lib/arc-network";
+import { multicall, resultOr } from "@shared/multicall";
+import { formatTokenAmount } from "@shared/allowance";
+import type { SpenderLabelInfo, RevokeHistory, WalletRevokeStats, GlobalRevokeStats } from "@shared/schema";
 
 interface ContractSearchResult {
   address: string;
@@ -15,34 +22,70 @@ interface ContractSearchResult {
   symbol?: string;
   decimals?: number;
   totalSupply?: string;
+  logoUri?: string | null;
   isToken: boolean;
+  label?: SpenderLabelInfo | null;
 }
 
-const ERC20_ABI = [
-  "function name() view returns (string)",
-  "function symbol() view returns (string)",
-  "function decimals() view returns (uint8)",
+interface TokenMetadataResponse {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number | null;
+  logoUri: string | null;
+}
+
+const ERC20_SUPPLY = new Interface([
   "function totalSupply() view returns (uint256)"
-];
+]);
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// "USDC: min(1.00K revoked, 250.00 held) × $1.00 (static)" for one valued revoke
+const describeRevokeValue = (revoke: RevokeHistory) => {
+  const decimals = revoke.tokenDecimals ?? 18;
+  const revoked = revoke.revokedAmount ? formatTokenAmount(revoke.revokedAmount, decimals) : '?';
+  const held = revoke.balanceAtRevoke ? formatTokenAmount(revoke.balanceAtRevoke, decimals) : '?';
+  const price = revoke.priceUsd ? `$${parseFloat(revoke.priceUsd).toFixed(2)} (${revoke.priceSource})` : 'no price';
+  return `${revoke.tokenSymbol}: min(${revoked} revoked, ${held} held) × ${price}`;
+};
 
 export default function Home() {
+  // Set on /address/:address, where any wallet can be audited without connecting it
+  const { address: watchParam } = useParams<{ address?: string }>();
+  const watchedAddress = watchParam && ADDRESS_PATTERN.test(watchParam) ? watchParam : null;
+  const [, navigate] = useLocation();
   const [account, setAccount] = useState<string | null>(null);
   const [wrongNetwork, setWrongNetwork] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
   const [searchResult, setSearchResult] = useState<ContractSearchResult | null>(null);
   const [searchError, setSearchError] = useState<string | null>(null);
-  const { data: stats, refetch: refetchStats } = useQuery<{ totalRevokes: number; totalValueSecured: string }>({
-    queryKey: ['/api/stats', account],
+  const [watchInput, setWatchInput] = useState(watchParam || "");
+  const [watchError, setWatchError] = useState<string | null>(null);
+  // Wallet the page is about: the watched address if any, otherwise the connected one
+  const scannedAccount = watchedAddress || account;
+  const { data: stats, refetch: refetchStats } = useQuery<WalletRevokeStats>({
+    queryKey: ['/api/stats', scannedAccount],
     queryFn: async () => {
-      const url = account ? `/api/stats?wallet=${account}` : '/api/stats';
-      const response = await fetch(url);
+      const response = await fetch(`/api/stats?wallet=${scannedAccount}`);
       if (!response.ok) throw new Error('Failed to fetch stats');
       return response.json();
     },
-    refetchInterval: 30000,
+    // Refreshed when the approval stream reports a completed revoke
     staleTime: 15000,
-    enabled: true,
+    enabled: !!scannedAccount,
+  });
+  // Without a wallet the cards and the activity chart show chain-wide totals
+  const { data: globalStats, isLoading: globalStatsLoading } = useQuery<GlobalRevokeStats>({
+    queryKey: ['/api/stats'],
+    queryFn: async () => {
+      const response = await fetch('/api/stats');
+      if (!response.ok) throw new Error('Failed to fetch stats');
+      return response.json();
+    },
+    staleTime: 60000,
+    enabled: !scannedAccount,
   });
 
   const handleStatsUpdate = useCallback(() => {
@@ -50,10 +93,25 @@ export default function Home() {
   }, [refetchStats]);
 
   useEffect(() => {
-    if (account) {
+    if (scannedAccount) {
       refetchStats();
     }
-  }, [account, refetchStats]);
+  }, [scannedAccount, refetchStats]);
+
+  useEffect(() => {
+    setWatchInput(watchParam || "");
+    setWatchError(watchParam && !watchedAddress ? "Invalid address format." : null);
+  }, [watchParam, watchedAddress]);
+
+  const watchAddress = () => {
+    const address = watchInput.trim();
+    if (!ADDRESS_PATTERN.test(address)) {
+      setWatchError("Invalid address format. Please enter a valid wallet address.");
+      return;
+    }
+    setWatchError(null);
+    navigate(`/address/${address}`);
+  };
 
   const formatCurrency = (value: string | undefined) => {
     if (!value) return "$0.00";
@@ -75,7 +133,7 @@ export default function Home() {
       const address = searchQuery.trim();
 
       // Validate address format
-      if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      if (!ADDRESS_PATTERN.test(address)) {
         setSearchError("Invalid address format. Please enter a valid contract address.");
         setIsSearching(false);
         return;
@@ -89,31 +147,29 @@ export default function Home() {
         return;
       }
 
-      // Try to get ERC20 info
-      const contract = new Contract(address, ERC20_ABI, provider);
-      let name = "", symbol = "", decimals = 18, totalSupply = "0";
-      let isToken = false;
-
-      try {
-        [name, symbol, decimals, totalSupply] = await Promise.all([
-          contract.name().catch(() => "Unknown Contract"),
-          contract.symbol().catch(() => "???"),
-          contract.decimals().catch(() => 18),
-          contract.totalSupply().catch(() => BigInt(0))
-        ]);
-        isToken = true;
-      } catch (e) {
-        name = "Unknown Contract";
-        symbol = "???";
-      }
+      // Metadata comes from the server token registry; only the supply is read live
+      const [token, results, label] = await Promise.all([
+        fetch(`/api/tokens/${address}`)
+          .then(response => response.ok ? response.json() as Promise<TokenMetadataResponse> : null)
+          .catch(() => null),
+        multicall(provider, [{ target: address, iface: ERC20_SUPPLY, method: "totalSupply" }]),
+        fetch(`/api/labels/${address}`)
+          .then(response => response.ok ? response.json() as Promise<SpenderLabelInfo> : null)
+          .catch(() => null)
+      ]);
+      const decimals = token?.decimals ?? 18;
+      const totalSupply = resultOr(results[0], BigInt(0));
+      const isToken = token?.decimals != null || results[0].success;
 
       setSearchResult({
         address,
-        name,
-        symbol,
+        name: token && token.name !== "Unknown Token" ? token.name : "Unknown Contract",
+        symbol: token && token.symbol !== "TOKEN" ? token.symbol : "???",
         decimals,
-        totalSupply: isToken ? formatUnits(totalSupply, decimals) : "N/A",
-        isToken
+        totalSupply: isToken ? formatTokenAmount(totalSupply, decimals) : "N/A",
+        logoUri: token?.logoUri,
+        isToken,
+        label
       });
     } catch (error) {
       console.error("Search error:", error);
@@ -154,7 +210,12 @@ export default function Home() {
             </div>
           </div>
           
-          <ConnectWallet onAccountChange={setAccount} onNetworkChange={setWrongNetwork} />
+          <div className="flex items-center gap-4">
+            <Link href="/leaderboard" className="hidden sm:flex items-center gap-1 text-sm font-mono text-muted-foreground hover:text-primary transition-colors" data-testid="link-leaderboard">
+              <Trophy className="h-4 w-4" /> Leaderboard
+            </Link>
+            <ConnectWallet onAccountChange={setAccount} onNetworkChange={setWrongNetwork} />
+          </div>
         </div>
       </nav>
 
@@ -167,11 +228,11 @@ export default function Home() {
             <h3 className="text-muted-foreground text-sm font-mono mb-2">REVOKED CONTRACTS</h3>
             <div className="flex items-end gap-2">
               <span className="text-3xl font-display font-bold text-primary" data-testid="text-revoked-count">
-                {account ? (stats?.totalRevokes ?? 0) : '-'}
+                {scannedAccount ? (stats?.totalRevokes ?? 0) : globalStats ? globalStats.totalRevokes.toLocaleString() : '-'}
               </span>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              {account ? 'Your revokes on-chain' : 'Connect wallet to view'}
+              {watchedAddress ? 'Revokes by this wallet' : account ? 'Your revokes on-chain' : 'Revokes across Arc'}
             </p>
           </div>
 
@@ -181,13 +242,37 @@ export default function Home() {
             </div>
             <h3 className="text-muted-foreground text-sm font-mono mb-2">ASSETS SECURED</h3>
             <div className="flex items-end gap-2">
-              <span className="text-3xl font-display font-bold text-green-400" data-testid="text-assets-secured">
-                {account ? formatCurrency(stats?.totalValueSecured) : '-'}
-              </span>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="text-3xl font-display font-bold text-green-400 cursor-help" data-testid="text-assets-secured">
+                    {scannedAccount ? formatCurrency(stats?.totalValueSecured) : globalStats ? formatCurrency(globalStats.totalValueSecured) : '-'}
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-sm">
+                  <p className="text-xs mb-1">Each revoke is worth the allowance it removed, capped by the balance held just before, at the price of that block.</p>
+                  {stats?.topRevokes && stats.topRevokes.length > 0 && (
+                    <ul className="text-xs font-mono space-y-1" data-testid="list-revoke-derivations">
+                      {stats.topRevokes.map(revoke => (
+                        <li key={revoke.id}>
+                          {describeRevokeValue(revoke)} = ${parseFloat(revoke.valueSecured).toFixed(2)}
+                          {revoke.balanceBlock !== null && revoke.revokeBlock !== null && revoke.balanceBlock >= revoke.revokeBlock && ' (current balance)'}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TooltipContent>
+              </Tooltip>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              {account ? 'Value protected on-chain' : 'Connect wallet to view'}
+              {scannedAccount ? 'Value protected on-chain' : `Secured through ArcRevoke${globalStats ? ` (${globalStats.recordedRevokes} revokes)` : ''}`}
             </p>
+            {scannedAccount && (!!stats?.unpricedRevokes || !!stats?.pendingRevokes) && (
+              <p className="text-[10px] font-mono text-muted-foreground mt-1" data-testid="text-secured-caveats">
+                {stats.unpricedRevokes ? `${stats.unpricedRevokes} unpriced` : ''}
+                {stats.unpricedRevokes && stats.pendingRevokes ? ' · ' : ''}
+                {stats.pendingRevokes ? `${stats.pendingRevokes} still being valued` : ''}
+              </p>
+            )}
           </div>
 
           <div className="glass-panel p-6 rounded-xl relative overflow-hidden group flex flex-col justify-center">
@@ -227,16 +312,21 @@ export default function Home() {
                   <X className="h-4 w-4" />
                 </button>
                 <div className="flex items-center gap-2 mb-2 pr-6">
-                  <Activity className="text-primary h-4 w-4" />
+                  {searchResult.logoUri ? (
+                    <img src={searchResult.logoUri} alt={searchResult.symbol} className="h-4 w-4 rounded-full" />
+                  ) : (
+                    <Activity className="text-primary h-4 w-4" />
+                  )}
                   <span className="text-white font-medium text-sm">{searchResult.name}</span>
                   {searchResult.isToken && (
                     <span className="text-primary text-xs font-mono">({searchResult.symbol})</span>
                   )}
                 </div>
+                <SpenderLabel label={searchResult.label} testId="label-search-result" />
                 <p className="text-[10px] text-muted-foreground font-mono break-all">{searchResult.address}</p>
                 {searchResult.isToken && (
                   <p className="text-xs text-muted-foreground mt-1">
-                    Total Supply: {parseFloat(searchResult.totalSupply || '0').toLocaleString()} {searchResult.symbol}
+                    Total Supply: {searchResult.totalSupply} {searchResult.symbol}
                   </p>
                 )}
               </div>
@@ -244,8 +334,50 @@ export default function Home() {
           </div>
         </div>
 
+        {!scannedAccount && <RevokeActivity stats={globalStats} isLoading={globalStatsLoading} />}
+
         <div className="glass-panel rounded-xl p-6 md:p-8 min-h-[500px]">
-          <ApprovalList account={account} onStatsUpdate={handleStatsUpdate} wrongNetwork={wrongNetwork} />
+          <div className="flex flex-col md:flex-row gap-2 mb-6">
+            <div className="relative flex-1">
+              <Eye className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input 
+                placeholder="Audit any wallet address (0x...)" 
+                value={watchInput}
+                onChange={(e) => setWatchInput(e.target.value)}
+                onKeyPress={(e) => { if (e.key === 'Enter') watchAddress(); }}
+                className="bg-black/40 border-white/10 focus:border-primary/50 focus:ring-primary/20 font-mono pl-9"
+                data-testid="input-watch-address"
+              />
+            </div>
+            <Button 
+              onClick={watchAddress} 
+              disabled={!watchInput.trim()}
+              className="bg-primary text-black font-bold"
+              data-testid="button-watch-address"
+            >
+              Scan Address
+            </Button>
+            {watchedAddress && (
+              <Button 
+                variant="ghost"
+                onClick={() => navigate("/")}
+                className="text-muted-foreground hover:text-primary"
+                data-testid="button-exit-watch"
+              >
+                <X className="mr-1 h-4 w-4" /> Exit Watch Mode
+              </Button>
+            )}
+          </div>
+          {watchError && (
+            <p className="text-red-400 text-xs -mt-4 mb-6 font-mono">{watchError}</p>
+          )}
+          <ApprovalList 
+            account={scannedAccount} 
+            connectedAccount={account}
+            readOnly={!!watchedAddress}
+            onStatsUpdate={handleStatsUpdate} 
+            wrongNetwork={wrongNetwork} 
+          />
         </div>
       </main>
 
@@ -0,0 +1,200 @@
+import { ConnectWallet } from "@/components/ConnectWallet";
+import { ShieldCheck, Trophy, Loader2, EyeOff, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import generatedImage from '@assets/generated_images/futuristic_abstract_dark_crypto_background_with_neon_networks.png';
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { BrowserProvider } from "ethers";
+import { useToast } from "@/hooks/use-toast";
+import { LEADERBOARD_WINDOWS, leaderboardConsentMessage } from "@shared/leaderboard";
+import type { Leaderboard as LeaderboardData, LeaderboardSort, LeaderboardWindow } from "@shared/schema";
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+const formatCurrency = (value: string) => {
+  const num = parseFloat(value);
+  if (num < 1000) return `$${num.toFixed(2)}`;
+  if (num < 1000000) return `$${(num / 1000).toFixed(2)}K`;
+  return `$${(num / 1000000).toFixed(2)}M`;
+};
+
+const RANK_STYLES: Record<number, string> = {
+  1: 'text-yellow-400',
+  2: 'text-gray-300',
+  3: 'text-orange-400',
+};
+
+export default function Leaderboard() {
+  const [account, setAccount] = useState<string | null>(null);
+  const [period, setPeriod] = useState<LeaderboardWindow>('30d');
+  const [sort, setSort] = useState<LeaderboardSort>('revokes');
+  const [isSigning, setIsSigning] = useState(false);
+  const { toast } = useToast();
+
+  const { data: leaderboard, isLoading, isError, refetch } = useQuery<LeaderboardData>({
+    queryKey: ['/api/leaderboard', period, sort, account],
+    queryFn: async () => {
+      const response = await fetch(`/api/leaderboard?window=${period}&sort=${sort}${account ? `&wallet=${account}` : ''}`);
+      if (!response.ok) throw new Error('Failed to fetch leaderboard');
+      return response.json();
+    },
+    staleTime: 60000,
+  });
+
+  // Opting out (or back in) is proven by a personal_sign of the consent message; no transaction is sent
+  const updateConsent = async (optOut: boolean) => {
+    if (!window.ethereum || !account) {
+      toast({ title: "Wallet Not Connected", variant: "destructive" });
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      const issuedAt = new Date().toISOString();
+      const signer = await new BrowserProvider(window.ethereum).getSigner();
+      const signature = await signer.signMessage(leaderboardConsentMessage(account, optOut, issuedAt));
+      const response = await fetch('/api/leaderboard/consent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: account, optOut, issuedAt, signature }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to update leaderboard consent');
+      }
+      toast({ title: optOut ? "Hidden" : "Visible", description: optOut ? "Your wallet no longer appears on the leaderboard" : "Your wallet appears on the leaderboard again" });
+      refetch();
+    } catch (err: any) {
+      if (err.code === 4001 || err.code === 'ACTION_REJECTED') {
+        toast({ title: "Cancelled", description: "Signature was cancelled", variant: "destructive" });
+      } else {
+        toast({ title: "Error", description: err.message || "Could not update leaderboard consent", variant: "destructive" });
+      }
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground overflow-x-hidden">
+      <div
+        className="fixed inset-0 z-0 opacity-20 pointer-events-none"
+        style={{
+          backgroundImage: `url(${generatedImage})`,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      />
+
+      <nav className="relative z-10 border-b border-white/10 bg-black/50 backdrop-blur-lg">
+        <div className="container mx-auto px-4 h-20 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-3" data-testid="link-home">
+            <div className="h-10 w-10 bg-primary/20 rounded-lg flex items-center justify-center border border-primary/50 shadow-[0_0_15px_rgba(0,243,255,0.3)]">
+              <ShieldCheck className="text-primary h-6 w-6" />
+            </div>
+            <h1 className="text-2xl font-display font-bold text-white tracking-widest">
+              ARC<span className="text-primary">REVOKE</span>
+            </h1>
+          </Link>
+
+          <ConnectWallet onAccountChange={setAccount} />
+        </div>
+      </nav>
+
+      <main className="relative z-10 container mx-auto px-4 py-12">
+        <div className="glass-panel rounded-xl p-6 md:p-8 min-h-[500px]">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+                <Trophy className="h-6 w-6 text-primary" /> Revoker Leaderboard
+              </h2>
+              <p className="text-xs text-muted-foreground mt-1">Wallets keeping their approvals clean on Arc</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Tabs value={period} onValueChange={(value) => setPeriod(value as LeaderboardWindow)}>
+                <TabsList className="bg-black/40">
+                  {(Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[]).map(key => (
+                    <TabsTrigger key={key} value={key} className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid={`tab-window-${key}`}>
+                      {LEADERBOARD_WINDOWS[key].label}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <Tabs value={sort} onValueChange={(value) => setSort(value as LeaderboardSort)}>
+                <TabsList className="bg-black/40">
+                  <TabsTrigger value="revokes" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-sort-revokes">Revokes</TabsTrigger>
+                  <TabsTrigger value="value" className="data-[state=active]:bg-primary data-[state=active]:text-black" data-testid="tab-sort-value">Value Secured</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </div>
+
+          {account && leaderboard && (
+            <div className="flex items-center justify-between gap-4 mb-6 p-3 rounded-lg border border-white/10 bg-black/40">
+              <p className="text-xs text-muted-foreground">
+                {leaderboard.optedOut ? 'Your wallet is hidden from the leaderboard.' : 'Your wallet is listed when it ranks. Hiding it takes a free signature.'}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateConsent(!leaderboard.optedOut)}
+                disabled={isSigning}
+                className="border-white/10"
+                data-testid="button-leaderboard-consent"
+              >
+                {isSigning ? <Loader2 className="h-3 w-3 animate-spin" /> : leaderboard.optedOut ? <><Eye className="mr-1 h-3 w-3" /> Show my wallet</> : <><EyeOff className="mr-1 h-3 w-3" /> Hide my wallet</>}
+              </Button>
+            </div>
+          )}
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+          {isError && (
+            <p className="text-red-400 text-xs font-mono">Could not load the leaderboard.</p>
+          )}
+          {leaderboard && leaderboard.entries.length === 0 && (
+            <p className="text-muted-foreground text-sm py-16 text-center">No revokes in this period yet.</p>
+          )}
+
+          {leaderboard && leaderboard.entries.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" data-testid="table-leaderboard">
+                <thead>
+                  <tr className="text-left text-[10px] font-mono text-muted-foreground border-b border-white/10">
+                    <th className="py-2 pr-4">RANK</th>
+                    <th className="py-2 pr-4">WALLET</th>
+                    <th className="py-2 pr-4 text-right">REVOKES</th>
+                    <th className="py-2 text-right">VALUE SECURED</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {leaderboard.entries.map(entry => {
+                    const isViewer = account?.toLowerCase() === entry.walletAddress;
+                    return (
+                      <tr key={entry.walletAddress} className={`border-b border-white/5 ${isViewer ? 'bg-primary/10' : ''}`} data-testid={`row-leaderboard-${entry.walletAddress}`}>
+                        <td className={`py-3 pr-4 font-display font-bold ${RANK_STYLES[entry.rank] || 'text-muted-foreground'}`}>#{entry.rank}</td>
+                        <td className="py-3 pr-4 font-mono">
+                          <Link href={`/address/${entry.walletAddress}`} className="text-white hover:text-primary transition-colors">
+                            {formatAddress(entry.walletAddress)}
+                          </Link>
+                          {isViewer && <span className="ml-2 text-[10px] text-primary">YOU</span>}
+                        </td>
+                        <td className="py-3 pr-4 text-right font-mono text-primary">{entry.revokes.toLocaleString()}</td>
+                        <td className="py-3 text-right font-mono text-green-400">{formatCurrency(entry.valueSecured)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { ShieldCheck, FileText, Loader2, Link2, Braces, AlertTriangle, Skull } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SpenderLabel } from "@/components/SpenderLabel";
+import generatedImage from '@assets/generated_images/futuristic_abstract_dark_crypto_background_with_neon_networks.png';
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { ARC_TESTNET } from "@/lib/arc-network";
+import { formatTokenAmount } from "@shared/allowance";
+import type { ReportFinding, SpenderRisk, WalletReport } from "@shared/schema";
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+// Null stands for an unlimited (unbounded) amount, which JSON cannot carry as Infinity
+const formatUsd = (value: number | null | undefined) => {
+  if (value === undefined) return '-';
+  if (value === null) return 'Unlimited';
+  if (value === 0) return '$0';
+  if (value < 0.01) return '<$0.01';
+  if (value < 1000) return `$${value.toFixed(2)}`;
+  if (value < 1000000) return `$${(value / 1000).toFixed(2)}K`;
+  return `$${(value / 1000000).toFixed(2)}M`;
+};
+
+const RISK_STYLES: Record<SpenderRisk['level'], string> = {
+  low: 'text-green-400 border-green-500/30 bg-green-500/10',
+  medium: 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10',
+  high: 'text-orange-400 border-orange-500/30 bg-orange-500/20',
+  critical: 'text-red-400 border-red-500/40 bg-red-500/20',
+};
+
+const KIND_LABELS: Record<ReportFinding['kind'], string> = {
+  erc20: 'ERC-20',
+  nft: 'NFT operator',
+  permit2: 'Permit2',
+};
+
+const SectionTitle = ({ children }: { children: ReactNode }) => (
+  <h3 className="text-muted-foreground text-sm font-mono mb-3 mt-8 uppercase">{children}</h3>
+);
+
+const TH = "py-2 pr-4 font-normal";
+
+// Read-only view of a stored report. Nothing here is re-scanned: it shows the wallet as it was at the report's block.
+export default function Report() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+
+  const { data: report, isLoading, isError } = useQuery<WalletReport>({
+    queryKey: ['/api/reports', id],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/${id}`);
+      if (!response.ok) throw new Error('Failed to fetch report');
+      return response.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const explorerUrl = ARC_TESTNET.blockExplorerUrls[0];
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Copied", description: "Report link copied to clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground overflow-x-hidden">
+      <div
+        className="fixed inset-0 z-0 opacity-20 pointer-events-none"
+        style={{
+          backgroundImage: `url(${generatedImage})`,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      />
+
+      <nav className="relative z-10 border-b border-white/10 bg-black/50 backdrop-blur-lg">
+        <div className="container mx-auto px-4 h-20 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-3" data-testid="link-home">
+            <div className="h-10 w-10 bg-primary/20 rounded-lg flex items-center justify-center border border-primary/50 shadow-[0_0_15px_rgba(0,243,255,0.3)]">
+              <ShieldCheck className="text-primary h-6 w-6" />
+            </div>
+            <h1 className="text-2xl font-display font-bold text-white tracking-widest">
+              ARC<span className="text-primary">REVOKE</span>
+            </h1>
+          </Link>
+        </div>
+      </nav>
+
+      <main className="relative z-10 container mx-auto px-4 py-12">
+        <div className="glass-panel rounded-xl p-6 md:p-8 min-h-[500px]">
+          {isLoading && (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+          {isError && (
+            <p className="text-red-400 text-xs font-mono">Report not found.</p>
+          )}
+
+          {report && (
+            <>
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+                <div>
+                  <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+                    <FileText className="h-6 w-6 text-primary" /> Wallet Security Report
+                  </h2>
+                  <Link href={`/address/${report.walletAddress}`} className="text-xs font-mono text-muted-foreground hover:text-primary break-all" data-testid="link-report-wallet">
+                    {report.walletAddress}
+                  </Link>
+                  <p className="text-[10px] font-mono text-muted-foreground uppercase tracking-wide mt-1" data-testid="text-report-snapshot">
+                    Snapshot {new Date(report.createdAt).toLocaleString()}
+                    {report.scan.blockNumber !== undefined && ` · Block ${report.scan.blockNumber.toLocaleString()}`}
+                  </p>
+                  {report.scan.partial && (
+                    <p className="flex items-center gap-1 mt-1 text-[10px] font-mono uppercase text-orange-400">
+                      <AlertTriangle className="h-3 w-3" /> Partial results - some history could not be read
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={copyLink} className="text-muted-foreground hover:text-primary gap-2" data-testid="button-copy-report-link">
+                    <Link2 size={14} /> Copy link
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild className="text-muted-foreground hover:text-primary gap-2">
+                    <a href={`/api/reports/${report.id}`} target="_blank" rel="noopener noreferrer" data-testid="link-report-json">
+                      <Braces size={14} /> JSON
+                    </a>
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-4 rounded-lg border border-white/10 bg-black/40">
+                  <p className="text-2xl font-display font-bold text-primary" data-testid="text-report-approvals">
+                    {report.approvals.length + report.nftApprovals.length + report.permit2Allowances.length}
+                  </p>
+                  <p className="text-[10px] font-mono text-muted-foreground">ACTIVE APPROVALS</p>
+                </div>
+                <div className="p-4 rounded-lg border border-white/10 bg-black/40">
+                  <p className="text-2xl font-display font-bold text-red-400" data-testid="text-report-exposure">{formatUsd(report.exposure.effectiveUsd)}</p>
+                  <p className="text-[10px] font-mono text-muted-foreground">EFFECTIVE EXPOSURE</p>
+                  <p className="text-[10px] font-mono text-muted-foreground">Worst case: {formatUsd(report.exposure.worstCaseUsd)}</p>
+                </div>
+                <div className="p-4 rounded-lg border border-white/10 bg-black/40">
+                  <p className="text-2xl font-display font-bold text-orange-400" data-testid="text-report-findings">{report.findings.length}</p>
+                  <p className="text-[10px] font-mono text-muted-foreground">RISK FINDINGS</p>
+                </div>
+                <div className="p-4 rounded-lg border border-white/10 bg-black/40">
+                  <p className="text-2xl font-display font-bold text-green-400" data-testid="text-report-revokes">{report.revokes.totalRevokes.toLocaleString()}</p>
+                  <p className="text-[10px] font-mono text-muted-foreground">REVOKES · {formatUsd(parseFloat(report.revokes.totalValueSecured))} SECURED</p>
+                </div>
+              </div>
+
+              <SectionTitle>Risk findings</SectionTitle>
+              {report.findings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No high-risk or blocklisted approvals at the time of the report.</p>
+              ) : (
+                <ul className="space-y-2" data-testid="list-report-findings">
+                  {report.findings.map(finding => (
+                    <li key={`${finding.kind}-${finding.tokenAddress}-${finding.spenderAddress}`} className="p-3 rounded-lg border border-white/10 bg-black/40 flex items-start gap-3">
+                      <span className={`px-2 py-1 rounded border text-xs font-bold uppercase shrink-0 ${RISK_STYLES[finding.severity]}`}>{finding.severity}</span>
+                      <div className="min-w-0">
+                        <p className="text-sm text-white">
+                          {finding.tokenSymbol} <span className="text-muted-foreground">({KIND_LABELS[finding.kind]})</span> → {finding.spenderName || formatAddress(finding.spenderAddress)}
+                        </p>
+                        {finding.flaggedBy && finding.flaggedBy.length > 0 && (
+                          <p className="flex items-center gap-1 text-[10px] font-mono uppercase text-red-400">
+                            <Skull className="h-3 w-3" /> Blocklisted by {finding.flaggedBy.join(', ')}
+                          </p>
+                        )}
+                        {finding.reasons.length > 0 && (
+                          <p className="text-xs text-muted-foreground">{finding.reasons.join(' · ')}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <SectionTitle>Token approvals ({report.approvals.length})</SectionTitle>
+              {report.approvals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm" data-testid="table-report-approvals">
+                    <thead>
+                      <tr className="text-left text-[10px] font-mono text-muted-foreground border-b border-white/10">
+                        <th className={TH}>TOKEN</th>
+                        <th className={TH}>SPENDER</th>
+                        <th className={TH}>APPROVED</th>
+                        <th className={TH}>EXPOSURE</th>
+                        <th className="py-2 font-normal">RISK</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.approvals.map(approval => (
+                        <tr key={approval.id} className="border-b border-white/5">
+                          <td className="py-3 pr-4">
+                            <span className="text-white">{approval.tokenSymbol}</span>
+                            <span className="block text-[10px] text-muted-foreground font-mono">{formatAddress(approval.tokenAddress)}</span>
+                          </td>
+                          <td className="py-3 pr-4">
+                            <SpenderLabel label={approval.spenderLabel} />
+                            <span className="text-[10px] font-mono text-muted-foreground">{formatAddress(approval.spenderAddress)}</span>
+                          </td>
+                          <td className="py-3 pr-4 font-mono text-white">
+                            {approval.isUnlimited ? <span className="text-orange-400 font-bold">UNLIMITED</span> : formatTokenAmount(approval.allowance, approval.decimals)}
+                          </td>
+                          <td className="py-3 pr-4 font-mono text-red-400">{formatUsd(approval.exposureUsd)}</td>
+                          <td className="py-3">
+                            {approval.risk ? (
+                              <span className={`px-2 py-1 rounded border text-xs font-bold uppercase ${RISK_STYLES[approval.risk.level]}`}>{approval.risk.level} · {approval.risk.score}</span>
+                            ) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <SectionTitle>NFT approvals ({report.nftApprovals.length})</SectionTitle>
+              {report.nftApprovals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm" data-testid="table-report-nft">
+                    <thead>
+                      <tr className="text-left text-[10px] font-mono text-muted-foreground border-b border-white/10">
+                        <th className={TH}>COLLECTION</th>
+                        <th className={TH}>OPERATOR</th>
+                        <th className={TH}>SCOPE</th>
+                        <th className="py-2 font-normal">RISK</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.nftApprovals.map(approval => (
+                        <tr key={approval.id} className="border-b border-white/5">
+                          <td className="py-3 pr-4">
+                            <span className="text-white">{approval.collectionName || approval.collectionSymbol}</span>
+                            <span className="block text-[10px] text-muted-foreground font-mono">{formatAddress(approval.collectionAddress)}</span>
+                          </td>
+                          <td className="py-3 pr-4">
+                            <SpenderLabel label={approval.operatorLabel} />
+                            <span className="text-[10px] font-mono text-muted-foreground">{formatAddress(approval.operatorAddress)}</span>
+                          </td>
+                          <td className="py-3 pr-4 font-mono text-white">{approval.tokenId !== undefined ? `#${approval.tokenId}` : 'All tokens'}</td>
+                          <td className="py-3">
+                            {approval.risk ? (
+                              <span className={`px-2 py-1 rounded border text-xs font-bold uppercase ${RISK_STYLES[approval.risk.level]}`}>{approval.risk.level} · {approval.risk.score}</span>
+                            ) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <SectionTitle>Permit2 allowances ({report.permit2Allowances.length})</SectionTitle>
+              {report.permit2Allowances.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm" data-testid="table-report-permit2">
+                    <thead>
+                      <tr className="text-left text-[10px] font-mono text-muted-foreground border-b border-white/10">
+                        <th className={TH}>TOKEN</th>
+                        <th className={TH}>SPENDER</th>
+                        <th className={TH}>AMOUNT</th>
+                        <th className="py-2 font-normal">EXPIRES</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.permit2Allowances.map(allowance => (
+                        <tr key={allowance.id} className="border-b border-white/5">
+                          <td className="py-3 pr-4 text-white">{allowance.tokenSymbol}</td>
+                          <td className="py-3 pr-4">
+                            <SpenderLabel label={allowance.spenderLabel} />
+                            <span className="text-[10px] font-mono text-muted-foreground">{formatAddress(allowance.spenderAddress)}</span>
+                          </td>
+                          <td className="py-3 pr-4 font-mono text-white">
+                            {allowance.isUnlimited ? <span className="text-orange-400 font-bold">UNLIMITED</span> : formatTokenAmount(allowance.amount, allowance.decimals)}
+                          </td>
+                          <td className="py-3 font-mono text-xs text-muted-foreground">{new Date(allowance.expiration * 1000).toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <SectionTitle>Revoke history ({report.revokes.items.length})</SectionTitle>
+              {report.revokes.items.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No revokes before the report.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm" data-testid="table-report-revokes">
+                    <thead>
+                      <tr className="text-left text-[10px] font-mono text-muted-foreground border-b border-white/10">
+                        <th className={TH}>TOKEN</th>
+                        <th className={TH}>SPENDER</th>
+                        <th className={TH}>VALUE SECURED</th>
+                        <th className={TH}>TIME</th>
+                        <th className="py-2 font-normal text-right">TX</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.revokes.items.map(revoke => (
+                        <tr key={revoke.id} className="border-b border-white/5">
+                          <td className="py-3 pr-4 text-white">{revoke.tokenSymbol}</td>
+                          <td className="py-3 pr-4">
+                            <SpenderLabel label={revoke.spenderLabel} />
+                            <span className="text-[10px] font-mono text-muted-foreground">{formatAddress(revoke.spenderAddress)}</span>
+                          </td>
+                          <td className="py-3 pr-4 font-mono text-green-400">{revoke.valueSecured === null ? '-' : `$${parseFloat(revoke.valueSecured).toFixed(2)}`}</td>
+                          <td className="py-3 pr-4 font-mono text-xs text-muted-foreground">{revoke.timestamp ? new Date(revoke.timestamp * 1000).toLocaleString() : '-'}</td>
+                          <td className="py-3 text-right">
+                            {revoke.txHash ? (
+                              <a href={`${explorerUrl}/tx/${revoke.txHash}`} target="_blank" rel="noopener noreferrer" className="text-xs font-mono text-primary hover:underline">
+                                {formatAddress(revoke.txHash)}
+                              </a>
+                            ) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import pg from "pg";
+
+// One-off cleanup for databases created before revoke_history had its unique index:
+// POST /api/revoke used to store the same revoke again on every post, and db:push
+// cannot create revoke_history_revoke_unique while those duplicates exist.
+// Keeps the first row of each (tx_hash, token, spender); run it before `npm run db:push`.
+async function dedupeRevokes() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  try {
+    const result = await pool.query(`
+      DELETE FROM revoke_history r
+      USING (
+        SELECT id, row_number() OVER (
+          PARTITION BY tx_hash, lower(token_address), lower(spender_address)
+          ORDER BY created_at, id
+        ) AS position
+        FROM revoke_history
+        WHERE tx_hash IS NOT NULL
+      ) ranked
+      WHERE r.id = ranked.id AND ranked.position > 1
+    `);
+    console.log(`removed ${result.rowCount ?? 0} duplicate revoke(s)`);
+  } finally {
+    await pool.end();
+  }
+}
+
+dedupeRevokes().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
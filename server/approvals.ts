@@ -0,0 +1,536 @@
+import { ethers } from 'ethers';
+import type { AllowanceChange, DetectedApproval, DetectedNftApproval, Permit2Allowance, HeldToken, ScanMeta, InsertApprovalEvent, InsertPermit2Event, InsertTransferEvent } from '@shared/schema';
+import { PERMIT2_ADDRESS } from '@shared/contracts';
+import { multicall, resultOr } from '@shared/multicall';
+import { classifyAllowance, effectiveExposure, isUnlimitedAmount, toUsd } from '@shared/allowance';
+import { storage } from './storage';
+import { PERMIT2_APPROVAL_TOPIC, PERMIT2_PERMIT_TOPIC, TRANSFER_TOPIC, getProvider, getTxParties, toPermit2Event, toTransferEvent } from './chain';
+import { getTokenContractsWithFallback } from './sources';
+import { syncWalletApprovals, syncWalletLogs } from './blockchain';
+import { getTokenInfo, getTokenInfos } from './tokens';
+import { getTokenPrices } from './prices';
+import { scoreSpenders } from './risk';
+import { getLabelInfos } from './labels';
+import { getBlocklistMatches } from './blocklist';
+
+const ERC20_READ = new ethers.Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)'
+]);
+
+const NFT_READ_ABI = [
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+  'function getApproved(uint256 tokenId) view returns (address)',
+  'function ownerOf(uint256 tokenId) view returns (address)'
+];
+
+const PERMIT2_READ = new ethers.Interface([
+  'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)'
+]);
+
+// Approvals neither granted nor used for this long are flagged as dormant
+const DORMANT_AFTER_SECONDS = (parseInt(process.env.APPROVAL_DORMANT_DAYS || '90', 10) || 90) * 86400;
+
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+function getFlaggedBy(address: string): string[] | undefined {
+  const matches = getBlocklistMatches(address);
+  return matches.length > 0 ? matches.map(m => m.feed) : undefined;
+}
+
+export interface ScanResult<T> {
+  items: T[];
+  meta: ScanMeta;
+}
+
+function mergeScanMeta(...metas: ScanMeta[]): ScanMeta {
+  return {
+    sources: Array.from(new Set(metas.flatMap(m => m.sources))),
+    partial: metas.some(m => m.partial),
+    blockNumber: metas.find(m => m.blockNumber !== undefined)?.blockNumber,
+    scannedAt: metas.find(m => m.scannedAt !== undefined)?.scannedAt
+  };
+}
+
+// token address -> spender address -> latest approval timestamp
+type ApprovalPairs = Map<string, Map<string, number>>;
+
+async function fetchApprovalPairs(walletAddress: string): Promise<ApprovalPairs> {
+  const events = await storage.getApprovalEvents(walletAddress, 'Approval');
+
+  const pairs: ApprovalPairs = new Map();
+  for (const event of events) {
+    const spenders = pairs.get(event.tokenAddress) || new Map<string, number>();
+    if (event.timestamp >= (spenders.get(event.spenderAddress) || 0)) {
+      spenders.set(event.spenderAddress, event.timestamp);
+    }
+    pairs.set(event.tokenAddress, spenders);
+  }
+
+  return pairs;
+}
+
+interface TokenState {
+  decimals: number;
+  // Undefined when balanceOf / totalSupply reverted
+  balance?: bigint;
+  totalSupply?: bigint;
+}
+
+// Reads decimals, total supply and the wallet balance of many tokens in one batch
+async function readTokenStates(walletAddress: string, tokenAddresses: string[], blockTag?: number): Promise<Map<string, TokenState>> {
+  const results = await multicall(getProvider(), tokenAddresses.flatMap(target => [
+    { target, iface: ERC20_READ, method: 'decimals' },
+    { target, iface: ERC20_READ, method: 'balanceOf', args: [walletAddress] },
+    { target, iface: ERC20_READ, method: 'totalSupply' }
+  ]), { blockTag });
+
+  const states = new Map<string, TokenState>();
+  tokenAddresses.forEach((address, i) => {
+    const balance = results[i * 3 + 1];
+    const totalSupply = results[i * 3 + 2];
+    states.set(address, {
+      decimals: Number(resultOr<bigint>(results[i * 3], BigInt(18))),
+      balance: balance.success ? balance.value as bigint : undefined,
+      totalSupply: totalSupply.success ? totalSupply.value as bigint : undefined
+    });
+  });
+  return states;
+}
+
+export interface ApprovalPair {
+  tokenAddress: string;
+  spender: string;
+  timestamp: number;
+}
+
+interface SpenderUsage {
+  lastUsed: number;
+  pulled: bigint;
+}
+
+/**
+ * Attributes the wallet's outgoing ERC-20 transfers to its approved spenders.
+ * A transfer counts as a pull by the spender when the transaction was sent by
+ * it (an EOA calling transferFrom) or to it (a router or protocol contract).
+ * Transfers are synced into the index up to `latestBlock` first, and each
+ * transaction's sender and target are read once and stored with them.
+ * Keyed like approval ids (token-spender).
+ */
+async function readSpenderUsage(walletAddress: string, pairList: ApprovalPair[], latestBlock: number): Promise<{ usage: Map<string, SpenderUsage>; meta: ScanMeta }> {
+  const spendersByToken = new Map<string, Set<string>>();
+  for (const pair of pairList) {
+    spendersByToken.set(pair.tokenAddress, (spendersByToken.get(pair.tokenAddress) || new Set<string>()).add(pair.spender));
+  }
+
+  const sync = await syncWalletLogs(
+    `${walletAddress.toLowerCase()}:transfer`,
+    { topic0: TRANSFER_TOPIC, ownerAddress: walletAddress },
+    latestBlock,
+    -1,
+    async (logs) => {
+      const events = logs.map(toTransferEvent).filter((e): e is InsertTransferEvent => e !== null);
+      await storage.saveTransferEvents(events);
+      return events.length;
+    }
+  );
+  const transfers = await storage.getTransferEvents(walletAddress, Array.from(spendersByToken.keys()));
+
+  const unresolved = Array.from(new Set(transfers.filter(t => t.txFrom === null).map(t => t.txHash)));
+  const parties = await getTxParties(unresolved);
+  await storage.setTransferTxParties(Array.from(parties.entries()).map(([txHash, tx]) => ({ txHash, ...tx })));
+
+  const usage = new Map<string, SpenderUsage>();
+  for (const transfer of transfers) {
+    const tx = transfer.txFrom !== null ? { from: transfer.txFrom, to: transfer.txTo } : parties.get(transfer.txHash);
+    const spenders = spendersByToken.get(transfer.tokenAddress)!;
+    const spender = tx && [tx.to, tx.from].find((address): address is string => !!address && spenders.has(address));
+    if (!spender) continue;
+
+    const key = `${transfer.tokenAddress}-${spender}`;
+    const current = usage.get(key) || { lastUsed: 0, pulled: BigInt(0) };
+    usage.set(key, {
+      lastUsed: Math.max(current.lastUsed, transfer.timestamp),
+      pulled: current.pulled + BigInt(transfer.amount)
+    });
+  }
+
+  return { usage, meta: { sources: [sync.source], partial: sync.partial } };
+}
+
+/**
+ * Reads the current allowance of each token/spender pair. The map is keyed by
+ * approval id and holds null for pairs whose allowance is back to zero; pairs
+ * whose allowance call failed are left out. Usage columns and the dormancy flag
+ * are only filled in when spender usage is passed. Allowances and balances are
+ * read at `blockTag` when given, so a scan is a snapshot of one block.
+ */
+export async function readApprovals(
+  walletAddress: string,
+  pairList: ApprovalPair[],
+  usage?: Map<string, SpenderUsage>,
+  blockTag?: number
+): Promise<Map<string, DetectedApproval | null>> {
+  const tokenAddresses = Array.from(new Set(pairList.map(pair => pair.tokenAddress)));
+  const [infos, prices, states, allowances, risks, labels] = await Promise.all([
+    getTokenInfos(tokenAddresses),
+    getTokenPrices(tokenAddresses),
+    readTokenStates(walletAddress, tokenAddresses, blockTag),
+    multicall(getProvider(), pairList.map(pair => ({
+      target: pair.tokenAddress,
+      iface: ERC20_READ,
+      method: 'allowance',
+      args: [walletAddress, pair.spender]
+    })), { blockTag }),
+    scoreSpenders(pairList.map(pair => pair.spender)),
+    getLabelInfos(pairList.map(pair => pair.spender))
+  ]);
+
+  const now = Math.floor(Date.now() / 1000);
+  const found = new Map<string, DetectedApproval | null>();
+  pairList.forEach((pair, i) => {
+    const id = `${pair.tokenAddress}-${pair.spender}`;
+    if (!allowances[i].success) {
+      console.error(`[Approvals] Allowance check failed for ${pair.tokenAddress} / ${pair.spender}`);
+      return;
+    }
+    const allowance = allowances[i].value as bigint;
+    if (allowance === BigInt(0)) {
+      found.set(id, null);
+      return;
+    }
+
+    const info = infos.get(pair.tokenAddress)!;
+    const { decimals, balance, totalSupply } = states.get(pair.tokenAddress)!;
+    const allowanceClass = classifyAllowance(allowance, balance, totalSupply);
+    const isUnlimited = allowanceClass === 'unlimited';
+    const price = prices.get(pair.tokenAddress);
+    const exposure = balance === undefined ? undefined : effectiveExposure(allowance, balance);
+    const used = usage?.get(id);
+
+    found.set(id, {
+      id,
+      tokenAddress: pair.tokenAddress,
+      tokenName: info.name,
+      tokenSymbol: info.symbol,
+      tokenLogoUri: info.logoUri || undefined,
+      spenderAddress: pair.spender,
+      decimals,
+      allowance: allowance.toString(),
+      allowanceClass,
+      valueAtRisk: price && !isUnlimited ? toUsd(allowance, decimals, price.priceUsd) : undefined,
+      price,
+      balance: balance?.toString(),
+      totalSupply: totalSupply?.toString(),
+      exposure: exposure?.toString(),
+      exposureUsd: price && exposure !== undefined ? toUsd(exposure, decimals, price.priceUsd) : undefined,
+      hasBalance: (balance ?? BigInt(0)) > BigInt(0),
+      isUnlimited,
+      approvalTimestamp: pair.timestamp,
+      risk: risks.get(pair.spender),
+      spenderLabel: labels.get(pair.spender),
+      flaggedBy: getFlaggedBy(pair.spender),
+      ...(usage && {
+        lastUsedTimestamp: used?.lastUsed,
+        totalPulled: (used?.pulled ?? BigInt(0)).toString(),
+        isDormant: now - Math.max(pair.timestamp, used?.lastUsed ?? 0) > DORMANT_AFTER_SECONDS
+      })
+    });
+  });
+  return found;
+}
+
+/**
+ * Finds every Approval the wallet ever emitted (across all token contracts),
+ * then keeps the pairs whose on-chain allowance is still non-zero. Tokens the
+ * wallet no longer holds are kept on purpose: the allowance covers future deposits.
+ */
+export async function scanApprovals(walletAddress: string): Promise<ScanResult<DetectedApproval>> {
+  console.log(`[Approvals] Scanning approvals for wallet: ${walletAddress}`);
+  const meta = await syncWalletApprovals(walletAddress);
+  const pairs = await fetchApprovalPairs(walletAddress);
+
+  const pairList = Array.from(pairs.entries()).flatMap(([tokenAddress, spenders]) =>
+    Array.from(spenders.entries()).map(([spender, timestamp]) => ({ tokenAddress, spender, timestamp }))
+  );
+
+  const { usage, meta: usageMeta } = await readSpenderUsage(walletAddress, pairList, meta.blockNumber!);
+  const found = Array.from((await readApprovals(walletAddress, pairList, usage, meta.blockNumber)).values())
+    .filter((a): a is DetectedApproval => a !== null);
+
+  // Most recent approval first
+  found.sort((a, b) => (b.approvalTimestamp || 0) - (a.approvalTimestamp || 0));
+
+  console.log(`[Approvals] Found ${found.length} active approval(s) across ${pairs.size} token(s)`);
+  return { items: found, meta: mergeScanMeta(meta, usageMeta) };
+}
+
+/**
+ * Returns every allowance change of one token/spender pair, oldest first, with
+ * each step classified against the allowance it replaced.
+ */
+export async function getAllowanceHistory(walletAddress: string, tokenAddress: string, spenderAddress: string): Promise<ScanResult<AllowanceChange>> {
+  const meta = await syncWalletApprovals(walletAddress);
+  const events = await storage.getApprovalPairEvents(walletAddress, tokenAddress, spenderAddress);
+  const parties = await getTxParties(events.map(e => e.txHash));
+
+  let previous = BigInt(0);
+  const changes = events.map((event): AllowanceChange => {
+    const amount = BigInt(event.amount);
+    let kind: AllowanceChange['kind'] = 'set';
+    if (amount === BigInt(0)) kind = 'revoke';
+    else if (previous !== BigInt(0) && amount > previous) kind = 'increase';
+    else if (amount < previous) kind = 'decrease';
+
+    const change: AllowanceChange = {
+      kind,
+      amount: amount.toString(),
+      previousAmount: previous.toString(),
+      isUnlimited: isUnlimitedAmount(amount),
+      txHash: event.txHash,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      timestamp: event.timestamp,
+      originContract: parties.get(event.txHash)?.to ?? null
+    };
+    previous = amount;
+    return change;
+  });
+
+  return { items: changes, meta };
+}
+
+async function detectNftStandard(contract: ethers.Contract): Promise<DetectedNftApproval['standard']> {
+  const [isErc721, isErc1155] = await Promise.all([
+    contract.supportsInterface(ERC721_INTERFACE_ID).catch(() => false),
+    contract.supportsInterface(ERC1155_INTERFACE_ID).catch(() => false)
+  ]);
+  if (isErc721) return 'ERC721';
+  if (isErc1155) return 'ERC1155';
+  return 'unknown';
+}
+
+type NftApprovalEvent = Pick<InsertApprovalEvent, 'eventType' | 'tokenAddress' | 'spenderAddress' | 'tokenId' | 'timestamp'>;
+
+export function nftApprovalId(event: NftApprovalEvent): string {
+  return event.tokenId
+    ? `${event.tokenAddress}-${event.spenderAddress}-${event.tokenId}`
+    : `${event.tokenAddress}-${event.spenderAddress}`;
+}
+
+/**
+ * Checks whether the approval granted by an ApprovalForAll or ERC-721 Approval
+ * event is still in force, returning null once it has been cleared.
+ */
+export async function readNftApproval(walletAddress: string, event: NftApprovalEvent): Promise<DetectedNftApproval | null> {
+  const contract = new ethers.Contract(event.tokenAddress, NFT_READ_ABI, getProvider());
+  try {
+    if (event.eventType === 'ApprovalForAll') {
+      const approved: boolean = await contract.isApprovedForAll(walletAddress, event.spenderAddress);
+      if (!approved) return null;
+    } else {
+      const [approvedAddress, owner]: [string, string] = await Promise.all([
+        contract.getApproved(event.tokenId),
+        contract.ownerOf(event.tokenId)
+      ]);
+      // Transfers clear per-token approvals, often without emitting a new Approval event
+      if (approvedAddress.toLowerCase() !== event.spenderAddress || owner.toLowerCase() !== walletAddress.toLowerCase()) {
+        return null;
+      }
+    }
+
+    const [info, standard, risks, labels] = await Promise.all([
+      getTokenInfo(event.tokenAddress),
+      event.eventType === 'ERC721Approval' ? Promise.resolve('ERC721' as const) : detectNftStandard(contract),
+      scoreSpenders([event.spenderAddress]),
+      getLabelInfos([event.spenderAddress])
+    ]);
+
+    return {
+      id: nftApprovalId(event),
+      collectionAddress: event.tokenAddress,
+      collectionName: info.name,
+      collectionSymbol: info.symbol,
+      standard,
+      operatorAddress: event.spenderAddress,
+      tokenId: event.tokenId || undefined,
+      approvalTimestamp: event.timestamp,
+      risk: risks.get(event.spenderAddress),
+      operatorLabel: labels.get(event.spenderAddress),
+      flaggedBy: getFlaggedBy(event.spenderAddress)
+    };
+  } catch (e) {
+    console.error(`[Approvals] NFT approval check failed for ${event.tokenAddress} / ${event.spenderAddress}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Finds NFT operator approvals (ApprovalForAll) and single-token ERC-721
+ * approvals that are still active on-chain for the wallet.
+ */
+export async function scanNftApprovals(walletAddress: string): Promise<ScanResult<DetectedNftApproval>> {
+  console.log(`[Approvals] Scanning NFT approvals for wallet: ${walletAddress}`);
+  const meta = await syncWalletApprovals(walletAddress);
+  const [operatorEvents, tokenEvents] = await Promise.all([
+    storage.getApprovalEvents(walletAddress, 'ApprovalForAll'),
+    storage.getApprovalEvents(walletAddress, 'ERC721Approval')
+  ]);
+
+  // Events are ordered oldest first, so the last one per key is the current state
+  const latest = new Map<string, (typeof operatorEvents)[number]>();
+  for (const event of operatorEvents) {
+    latest.set(`${event.tokenAddress}-${event.spenderAddress}`, event);
+  }
+  for (const event of tokenEvents) {
+    latest.set(`${event.tokenAddress}-token-${event.tokenId}`, event);
+  }
+
+  const results = await Promise.all(
+    Array.from(latest.values())
+      .filter(event => event.amount !== '0')
+      .map(event => readNftApproval(walletAddress, event))
+  );
+
+  const found = results.filter((a): a is DetectedNftApproval => a !== null);
+  found.sort((a, b) => (b.approvalTimestamp || 0) - (a.approvalTimestamp || 0));
+
+  console.log(`[Approvals] Found ${found.length} active NFT approval(s)`);
+  return { items: found, meta };
+}
+
+/**
+ * Lists the Permit2 sub-allowances hidden behind a wallet's ERC-20 approvals to
+ * Permit2. Spenders are discovered from Permit2 Approval and Permit events, and
+ * only allowances that are non-zero and not yet expired are returned.
+ */
+export async function scanPermit2Allowances(walletAddress: string): Promise<ScanResult<Permit2Allowance>> {
+  console.log(`[Approvals] Scanning Permit2 allowances for wallet: ${walletAddress}`);
+  const provider = getProvider();
+  const [code, latestBlock] = await Promise.all([
+    provider.getCode(PERMIT2_ADDRESS),
+    provider.getBlockNumber()
+  ]);
+  if (code === '0x') {
+    console.log('[Approvals] Permit2 is not deployed on this chain');
+    return { items: [], meta: { sources: ['rpc'], partial: false } };
+  }
+
+  const sync = await syncWalletLogs(
+    `${walletAddress.toLowerCase()}:permit2`,
+    { topic0: [PERMIT2_APPROVAL_TOPIC, PERMIT2_PERMIT_TOPIC], ownerAddress: walletAddress, address: PERMIT2_ADDRESS },
+    latestBlock,
+    -1,
+    async (logs) => {
+      const events = logs.map(toPermit2Event).filter((e): e is InsertPermit2Event => e !== null);
+      await storage.savePermit2Events(events);
+      return events.length;
+    }
+  );
+  const events = await storage.getPermit2Events(walletAddress);
+
+  // token-spender -> latest event timestamp
+  const pairs = new Map<string, { tokenAddress: string; spenderAddress: string; timestamp: number }>();
+  for (const { tokenAddress, spenderAddress, timestamp } of events) {
+    const key = `${tokenAddress}-${spenderAddress}`;
+    if (timestamp >= (pairs.get(key)?.timestamp || 0)) {
+      pairs.set(key, { tokenAddress, spenderAddress, timestamp });
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const pairList = Array.from(pairs.entries());
+  const tokenAddresses = Array.from(new Set(pairList.map(([, pair]) => pair.tokenAddress)));
+
+  const [allowances, infos, states, labels] = await Promise.all([
+    multicall(provider, pairList.map(([, pair]) => ({
+      target: PERMIT2_ADDRESS,
+      iface: PERMIT2_READ,
+      method: 'allowance',
+      args: [walletAddress, pair.tokenAddress, pair.spenderAddress]
+    })), { blockTag: latestBlock }),
+    getTokenInfos(tokenAddresses),
+    readTokenStates(walletAddress, tokenAddresses, latestBlock),
+    getLabelInfos(pairList.map(([, pair]) => pair.spenderAddress))
+  ]);
+
+  const results = pairList.map(([key, pair], i): Permit2Allowance | null => {
+    if (!allowances[i].success) {
+      console.error(`[Approvals] Permit2 allowance check failed for ${key}`);
+      return null;
+    }
+    const [amount, expiration, nonce] = allowances[i].value as [bigint, bigint, bigint];
+    // Permit2 only rejects an allowance once block.timestamp > expiration
+    if (amount === BigInt(0) || Number(expiration) < now) return null;
+
+    const info = infos.get(pair.tokenAddress)!;
+    const { decimals, balance, totalSupply } = states.get(pair.tokenAddress)!;
+    const allowanceClass = classifyAllowance(amount, balance, totalSupply, 160);
+    return {
+      id: `permit2-${key}`,
+      tokenAddress: pair.tokenAddress,
+      tokenName: info.name,
+      tokenSymbol: info.symbol,
+      spenderAddress: pair.spenderAddress,
+      amount: amount.toString(),
+      decimals,
+      allowanceClass,
+      isUnlimited: allowanceClass === 'unlimited',
+      expiration: Number(expiration),
+      nonce: Number(nonce),
+      approvalTimestamp: pair.timestamp,
+      spenderLabel: labels.get(pair.spenderAddress),
+      flaggedBy: getFlaggedBy(pair.spenderAddress)
+    };
+  });
+
+  const found = results.filter((a): a is Permit2Allowance => a !== null);
+  found.sort((a, b) => (b.approvalTimestamp || 0) - (a.approvalTimestamp || 0));
+
+  console.log(`[Approvals] Found ${found.length} active Permit2 allowance(s)`);
+  return { items: found, meta: { sources: [sync.source], partial: sync.partial, blockNumber: latestBlock, scannedAt: now } };
+}
+
+/**
+ * Lists the ERC-20 tokens the wallet currently holds, with balances. Token
+ * contracts come from the explorer token list, or from Transfer logs when the
+ * explorer is unavailable.
+ */
+export async function listHeldTokens(walletAddress: string): Promise<ScanResult<HeldToken>> {
+  const [result, blockNumber] = await Promise.all([
+    getTokenContractsWithFallback(walletAddress),
+    getProvider().getBlockNumber()
+  ]);
+  const tokenAddresses = result.tokens.map(token => token.contractAddress);
+  const [states, infos] = await Promise.all([
+    readTokenStates(walletAddress, tokenAddresses, blockNumber),
+    // Registry metadata (curated token lists first) takes precedence over the explorer's
+    getTokenInfos(tokenAddresses)
+  ]);
+
+  const tokens = result.tokens.map((token): HeldToken | null => {
+    const state = states.get(token.contractAddress)!;
+    // Transfer-derived lists include tokens that were received and later sent away
+    if (state.balance === undefined || state.balance === BigInt(0)) return null;
+
+    const info = infos.get(token.contractAddress)!;
+    const decimals = info.decimals ?? token.decimals ?? state.decimals;
+    return {
+      contractAddress: token.contractAddress,
+      name: info.name === 'Unknown Token' && token.name ? token.name : info.name,
+      symbol: info.symbol === 'TOKEN' && token.symbol ? token.symbol : info.symbol,
+      balance: state.balance.toString(),
+      decimals,
+      logoUri: info.logoUri || undefined
+    };
+  });
+
+  return {
+    items: tokens.filter((t): t is HeldToken => t !== null),
+    meta: { sources: [result.source], partial: result.partial, blockNumber, scannedAt: Math.floor(Date.now() / 1000) }
+  };
+}
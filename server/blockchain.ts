@@ -1,177 +1,306 @@
-import { ethers } from 'ethers';
+import type { InsertApprovalEvent, ApprovalEventType, ScanMeta, DataSourceName, RevokeHistory, WalletRevoke, WalletRevokeStats, WalletRevokePage } from '@shared/schema';
+import { storage } from './storage';
+import { APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC, INDEXER_SCOPE, type RawLog, getProvider, getTxParties, isRevokeEvent, toApprovalEvent, withRevokeSenders } from './chain';
+import { getLogsWithFallback, type LogQuery } from './sources';
+import { getTokenInfos } from './tokens';
+import { valueRevoke } from './valuation';
 
-const ARCSCAN_API = 'https://testnet.arcscan.app/api';
-const APPROVAL_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
-const APPROVE_SELECTOR = '0x095ea7b3';
+// Recent blocks are re-fetched on every sync in case the explorer has not indexed them yet
+const EXPLORER_LAG_BLOCKS = 50;
+// Most revokes valued per stats request; each needs a few historical reads, the rest wait for later requests
+const MAX_VALUATIONS_PER_REQUEST = 25;
+const TOP_REVOKES = 5;
 
 interface RevokeTransaction {
+  // "<txHash>-<logIndex>" for indexed revokes, the revoke_history id for recorded-only ones
+  id: string;
+  eventType: ApprovalEventType | null;
   tokenAddress: string;
   tokenSymbol: string;
   spenderAddress: string;
-  txHash: string;
+  txHash: string | null;
+  blockNumber: number | null;
+  logIndex: number | null;
   timestamp: number;
   walletAddress: string;
+  // Set when the revoke is only known from revoke_history
+  record?: RevokeHistory;
 }
 
-interface BlockchainStats {
-  totalRevokes: number;
-  totalValueSecured: string;
-  recentRevokes: RevokeTransaction[];
+const revokeKey = (r: { txHash: string | null; tokenAddress: string; spenderAddress: string }) =>
+  `${r.txHash}-${r.tokenAddress.toLowerCase()}-${r.spenderAddress.toLowerCase()}`;
+
+/**
+ * Returns the stored revoke_history row of each revoke, valuing and storing the
+ * revokes that were never recorded through POST /api/revoke (made with another
+ * tool, or before valuation existed).
+ */
+async function loadRevokeRecords(revokes: RevokeTransaction[]): Promise<{ records: RevokeHistory[]; pending: number }> {
+  const stored = await storage.getRevokesByTxHashes(revokes.map(r => r.txHash).filter((txHash): txHash is string => !!txHash));
+  const byKey = new Map(stored.map(record => [revokeKey(record), record]));
+
+  const records: RevokeHistory[] = [];
+  let pending = 0;
+  let valued = 0;
+  for (const revoke of revokes) {
+    let existing = revoke.record || byKey.get(revokeKey(revoke));
+    // Rows recorded before transactions were checked are confirmed by the indexed event, sent by the wallet itself
+    if (existing && existing.verifiedBlock === null && revoke.eventType !== null && revoke.blockNumber !== null &&
+      existing.walletAddress.toLowerCase() === revoke.walletAddress) {
+      existing = await storage.markRevokeVerified(existing.id, revoke.blockNumber, revoke.timestamp);
+    }
+    if (existing) {
+      records.push(existing);
+      continue;
+    }
+    if (!revoke.txHash || valued >= MAX_VALUATIONS_PER_REQUEST) {
+      pending++;
+      continue;
+    }
+
+    valued++;
+    try {
+      const valuation = await valueRevoke(revoke.walletAddress, revoke.tokenAddress, revoke.spenderAddress, revoke.txHash);
+      const { record } = await storage.recordRevoke({
+        walletAddress: revoke.walletAddress,
+        tokenAddress: revoke.tokenAddress,
+        tokenSymbol: revoke.tokenSymbol,
+        spenderAddress: revoke.spenderAddress,
+        txHash: revoke.txHash,
+        ...valuation,
+        // Only indexed revokes whose transaction the wallet sent reach this point (see listWalletRevokes)
+        verifiedBlock: revoke.blockNumber,
+        revokedAt: revoke.timestamp
+      });
+      byKey.set(revokeKey(record), record);
+      records.push(record);
+    } catch (e) {
+      console.error(`[Blockchain] Could not value revoke ${revoke.txHash}:`, e);
+      pending++;
+    }
+  }
+  return { records, pending };
+}
+
+/**
+ * Stores a wallet's logs matching `query` for the blocks after the scope's
+ * checkpoint, then moves the checkpoint up to the last block fully read.
+ * `save` stores the logs and returns how many rows it kept. Blocks up to
+ * `indexedThrough` are skipped, as another scope already holds them.
+ */
+export async function syncWalletLogs(
+  scope: string,
+  query: Omit<LogQuery, 'fromBlock' | 'toBlock'>,
+  latestBlock: number,
+  indexedThrough: number,
+  save: (logs: RawLog[]) => Promise<number>
+): Promise<{ source: DataSourceName; partial: boolean }> {
+  const checkpoint = await storage.getScanCheckpoint(scope);
+  const fromBlock = Math.max(checkpoint ? checkpoint.lastBlock + 1 : 0, indexedThrough + 1);
+  if (fromBlock > latestBlock) return { source: 'index', partial: false };
+
+  console.log(`[Blockchain] Syncing ${scope} from block ${fromBlock}`);
+  const result = await getLogsWithFallback({ ...query, fromBlock, toBlock: latestBlock });
+  const stored = await save(result.logs);
+
+  let lastBlock = result.coveredTo;
+  if (result.source === 'explorer') {
+    lastBlock = Math.max(fromBlock - 1, Math.min(lastBlock, latestBlock - EXPLORER_LAG_BLOCKS));
+  }
+  await storage.setScanCheckpoint(scope, lastBlock);
+  console.log(`[Blockchain] Stored ${stored} event(s) for ${scope} via ${result.source}, checkpoint at block ${lastBlock}`);
+
+  return { source: result.source, partial: result.partial };
+}
+
+async function saveApprovalLogs(logs: RawLog[]): Promise<number> {
+  const events = logs
+    .map(toApprovalEvent)
+    .filter((e): e is InsertApprovalEvent => e !== null);
+  await storage.saveApprovalEvents(await withRevokeSenders(events));
+  return events.length;
+}
+
+/**
+ * Brings the stored Approval and ApprovalForAll events for a wallet up to date,
+ * fetching only the blocks after each scan checkpoint.
+ */
+export async function syncWalletApprovals(walletAddress: string): Promise<ScanMeta> {
+  const scope = walletAddress.toLowerCase();
+  const [indexer, latestBlock] = await Promise.all([
+    storage.getScanCheckpoint(INDEXER_SCOPE),
+    getProvider().getBlockNumber()
+  ]);
+  // Blocks already covered by the chain-wide indexer (from genesis) are in the database for every owner
+  const indexedThrough = indexer && indexer.fromBlock === 0 ? indexer.lastBlock : -1;
+
+  const results = await Promise.all([
+    syncWalletLogs(scope, { topic0: APPROVAL_TOPIC, ownerAddress: walletAddress }, latestBlock, indexedThrough, saveApprovalLogs),
+    syncWalletLogs(`${scope}:approval-for-all`, { topic0: APPROVAL_FOR_ALL_TOPIC, ownerAddress: walletAddress }, latestBlock, indexedThrough, saveApprovalLogs)
+  ]);
+
+  return {
+    sources: Array.from(new Set(results.map(r => r.source))),
+    partial: results.some(r => r.partial),
+    blockNumber: latestBlock,
+    scannedAt: Math.floor(Date.now() / 1000)
+  };
+}
+
+/**
+ * Every revoke of a wallet, newest first: approve(spender, 0) and
+ * setApprovalForAll(operator, false) sent by the wallet, from its full approval
+ * history (synced into the index first), plus revokes recorded through POST /api/revoke
+ * that emitted neither event, such as Permit2 lockdowns.
+ */
+async function listWalletRevokes(walletAddress: string): Promise<{ revokes: RevokeTransaction[]; meta: ScanMeta }> {
+  const wallet = walletAddress.toLowerCase();
+  const meta = await syncWalletApprovals(walletAddress);
+  const [approvalEvents, approvalForAllEvents, recorded] = await Promise.all([
+    storage.getApprovalEvents(wallet, 'Approval'),
+    storage.getApprovalEvents(wallet, 'ApprovalForAll'),
+    storage.getRevokesByWallet(wallet)
+  ]);
+  const zeroed = [...approvalEvents, ...approvalForAllEvents].filter(isRevokeEvent);
+
+  // Events stored before senders were recorded are resolved once; transactions that cannot be read yet are left out
+  const unresolved = zeroed.filter(e => e.txFrom === null).map(e => e.txHash);
+  const parties = await getTxParties(unresolved);
+  await storage.setRevokeSenders(Array.from(parties.entries()).map(([txHash, tx]) => ({ txHash, from: tx.from })));
+  // A zero approval the wallet did not send is a spender using up its allowance, not a revoke
+  const events = zeroed.filter(e => (e.txFrom ?? parties.get(e.txHash)?.from) === wallet);
+  const infos = await getTokenInfos(events.map(e => e.tokenAddress));
+
+  const revokes: RevokeTransaction[] = events.map(event => ({
+    id: `${event.txHash}-${event.logIndex}`,
+    eventType: event.eventType as ApprovalEventType,
+    tokenAddress: event.tokenAddress,
+    tokenSymbol: infos.get(event.tokenAddress)?.symbol || 'TOKEN',
+    spenderAddress: event.spenderAddress,
+    txHash: event.txHash,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    timestamp: event.timestamp,
+    walletAddress: wallet
+  }));
+
+  const indexedTxs = new Set(events.map(e => e.txHash));
+  for (const record of recorded) {
+    if (record.txHash && indexedTxs.has(record.txHash)) continue;
+    revokes.push({
+      id: record.id,
+      eventType: null,
+      tokenAddress: record.tokenAddress.toLowerCase(),
+      tokenSymbol: record.tokenSymbol,
+      spenderAddress: record.spenderAddress.toLowerCase(),
+      txHash: record.txHash,
+      blockNumber: record.revokeBlock,
+      logIndex: null,
+      timestamp: record.revokedAt ?? (record.createdAt ? Math.floor(record.createdAt.getTime() / 1000) : 0),
+      walletAddress: wallet,
+      record
+    });
+  }
+
+  revokes.sort((a, b) => compareRevokeKeys(revokeSortKey(b), revokeSortKey(a)));
+  return { revokes, meta };
 }
 
-const ERC20_ABI = [
-  'function symbol() view returns (string)',
-  'function decimals() view returns (uint8)',
-  'function name() view returns (string)'
-];
+// (timestamp, block, log index, id), compared in that order; newest revokes have the largest key
+type RevokeSortKey = [number, number, number, string];
+
+const revokeSortKey = (r: RevokeTransaction): RevokeSortKey => [r.timestamp, r.blockNumber ?? -1, r.logIndex ?? -1, r.id];
 
-const tokenInfoCache = new Map<string, { symbol: string; name: string }>();
+function compareRevokeKeys(a: RevokeSortKey, b: RevokeSortKey): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return (a[i] as number) - (b[i] as number);
+  }
+  return a[3] < b[3] ? -1 : a[3] > b[3] ? 1 : 0;
+}
 
-async function getTokenInfo(tokenAddress: string): Promise<{ symbol: string; name: string }> {
-  const cached = tokenInfoCache.get(tokenAddress.toLowerCase());
-  if (cached) return cached;
-  
+// Cursors are the opaque sort key of the last revoke returned, so new revokes do not shift later pages
+const encodeCursor = (key: RevokeSortKey) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+function decodeCursor(cursor: string): RevokeSortKey | null {
   try {
-    const provider = new ethers.JsonRpcProvider('https://rpc.testnet.arc.network');
-    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
-    const [symbol, name] = await Promise.all([
-      contract.symbol().catch(() => 'TOKEN'),
-      contract.name().catch(() => 'Unknown Token')
-    ]);
-    const info = { symbol: symbol || 'TOKEN', name: name || 'Unknown Token' };
-    tokenInfoCache.set(tokenAddress.toLowerCase(), info);
-    return info;
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid = Array.isArray(key) && key.length === 4 && key.slice(0, 3).every(Number.isInteger) && typeof key[3] === 'string';
+    return valid ? key as RevokeSortKey : null;
   } catch {
-    const info = { symbol: 'TOKEN', name: 'Unknown Token' };
-    tokenInfoCache.set(tokenAddress.toLowerCase(), info);
-    return info;
+    return null;
   }
 }
 
-export async function fetchRevokeStatsFromBlockchain(walletAddress: string): Promise<BlockchainStats> {
-  const revokes: RevokeTransaction[] = [];
-  
+/**
+ * One page of a wallet's revokes, newest first, starting after `cursor`.
+ * Revokes on the page that were never valued are valued now (a bounded
+ * number per request); the others come back with a null valueSecured.
+ * Resolves to null when the cursor is malformed.
+ */
+export async function getWalletRevokes(walletAddress: string, cursor: string | undefined, limit: number): Promise<{ page: WalletRevokePage; meta: ScanMeta } | null> {
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !after) return null;
+
+  const { revokes, meta } = await listWalletRevokes(walletAddress);
+  const start = after ? revokes.findIndex(r => compareRevokeKeys(revokeSortKey(r), after) < 0) : 0;
+  const page = start === -1 ? [] : revokes.slice(start, start + limit);
+  const { records } = await loadRevokeRecords(page);
+  const byKey = new Map(records.map(record => [revokeKey(record), record]));
+
+  const items = page.map((revoke): WalletRevoke => {
+    const record = revoke.record || byKey.get(revokeKey(revoke)) || null;
+    return {
+      id: revoke.id,
+      eventType: revoke.eventType,
+      tokenAddress: revoke.tokenAddress,
+      tokenSymbol: revoke.tokenSymbol,
+      spenderAddress: revoke.spenderAddress,
+      txHash: revoke.txHash,
+      blockNumber: revoke.blockNumber,
+      timestamp: revoke.timestamp,
+      valueSecured: record ? record.valueSecured : null,
+      valuation: record
+    };
+  });
+  return {
+    page: {
+      items,
+      total: revokes.length,
+      nextCursor: start !== -1 && start + limit < revokes.length ? encodeCursor(revokeSortKey(page[page.length - 1])) : null
+    },
+    meta
+  };
+}
+
+export async function fetchRevokeStatsFromBlockchain(walletAddress: string): Promise<WalletRevokeStats> {
   try {
     console.log(`[Blockchain] Fetching revokes for wallet: ${walletAddress}`);
+    const { revokes } = await listWalletRevokes(walletAddress);
+
+    const { records, pending } = await loadRevokeRecords(revokes);
+    const totalValueSecured = records.reduce((sum, r) => sum + (parseFloat(r.valueSecured) || 0), 0).toFixed(2);
+    // Rows without a revoked amount are NFT, Permit2 or pre-valuation revokes, which have no derivation to show
+    const derived = records.filter(r => r.revokedAmount !== null);
     
-    const txListUrl = `${ARCSCAN_API}?module=account&action=txlist&address=${walletAddress}&startblock=0&endblock=latest&page=1&offset=500&sort=desc`;
-    
-    console.log(`[Blockchain] Fetching transactions from: ${txListUrl}`);
-    const response = await fetch(txListUrl);
-    const data = await response.json();
-    
-    console.log(`[Blockchain] API Response status: ${data.status}, message: ${data.message}, result count: ${data.result?.length || 0}`);
-    
-    if (data.result && Array.isArray(data.result)) {
-      for (const tx of data.result) {
-        if (tx.input && tx.input.startsWith(APPROVE_SELECTOR) && tx.input.length >= 138) {
-          const amountHex = '0x' + tx.input.slice(74);
-          try {
-            const amount = BigInt(amountHex);
-            if (amount === BigInt(0)) {
-              const spenderHex = tx.input.slice(10, 74);
-              const spenderAddress = '0x' + spenderHex.slice(-40).toLowerCase();
-              const tokenAddress = tx.to?.toLowerCase() || '';
-              
-              if (tokenAddress && spenderAddress) {
-                const tokenInfo = await getTokenInfo(tokenAddress);
-                revokes.push({
-                  tokenAddress,
-                  tokenSymbol: tokenInfo.symbol,
-                  spenderAddress,
-                  txHash: tx.hash || '',
-                  timestamp: parseInt(tx.timeStamp, 10) || 0,
-                  walletAddress: walletAddress.toLowerCase()
-                });
-                console.log(`[Blockchain] Found revoke: ${tokenInfo.symbol} - spender: ${spenderAddress.slice(0, 10)}...`);
-              }
-            }
-          } catch (e) {
-            continue;
-          }
-        }
-      }
-    }
-    
-    console.log(`[Blockchain] Total revokes found: ${revokes.length}`);
-    
-    if (revokes.length === 0) {
-      const paddedOwner = walletAddress.toLowerCase().replace('0x', '').padStart(64, '0');
-      const topic1 = '0x' + paddedOwner;
-      
-      const logsUrl = `${ARCSCAN_API}?module=logs&action=getLogs&fromBlock=0&toBlock=latest&topic0=${APPROVAL_TOPIC}&topic1=${topic1}&topic0_1_opr=and`;
-      
-      console.log(`[Blockchain] Fetching logs from: ${logsUrl}`);
-      const logsResponse = await fetch(logsUrl);
-      const logsData = await logsResponse.json();
-      
-      console.log(`[Blockchain] Logs API Response: ${logsData.status}, count: ${logsData.result?.length || 0}`);
-      
-      if (logsData.result && Array.isArray(logsData.result)) {
-        for (const log of logsData.result) {
-          if (!log.data) continue;
-          
-          try {
-            const amount = BigInt(log.data);
-            if (amount === BigInt(0)) {
-              const tokenAddress = log.address?.toLowerCase() || '';
-              const spender = log.topics?.[2] ? ('0x' + log.topics[2].slice(-40)).toLowerCase() : '';
-              const txHash = log.transactionHash || '';
-              const timestamp = parseInt(log.timeStamp, 16) || parseInt(log.timeStamp, 10) || 0;
-              
-              if (tokenAddress && spender) {
-                const alreadyExists = revokes.some(r => 
-                  r.tokenAddress === tokenAddress && 
-                  r.spenderAddress === spender &&
-                  r.txHash === txHash
-                );
-                
-                if (!alreadyExists) {
-                  const tokenInfo = await getTokenInfo(tokenAddress);
-                  revokes.push({
-                    tokenAddress,
-                    tokenSymbol: tokenInfo.symbol,
-                    spenderAddress: spender,
-                    txHash,
-                    timestamp,
-                    walletAddress: walletAddress.toLowerCase()
-                  });
-                  console.log(`[Blockchain] Found revoke from logs: ${tokenInfo.symbol}`);
-                }
-              }
-            }
-          } catch (e) {
-            continue;
-          }
-        }
-      }
-    }
-    
-    revokes.sort((a, b) => b.timestamp - a.timestamp);
-    
-    const estimatedValuePerRevoke = 75;
-    const totalValueSecured = (revokes.length * estimatedValuePerRevoke).toFixed(2);
-    
-    console.log(`[Blockchain] Final result: ${revokes.length} revokes, $${totalValueSecured} secured`);
+    console.log(`[Blockchain] Final result: ${revokes.length} revokes, $${totalValueSecured} secured, ${pending} not valued yet`);
     
     return {
       totalRevokes: revokes.length,
       totalValueSecured,
-      recentRevokes: revokes.slice(0, 20)
+      unpricedRevokes: derived.filter(r => r.priceUsd === null || r.balanceAtRevoke === null).length,
+      pendingRevokes: pending,
+      topRevokes: derived
+        .sort((a, b) => parseFloat(b.valueSecured) - parseFloat(a.valueSecured))
+        .slice(0, TOP_REVOKES)
     };
   } catch (error) {
     console.error('[Blockchain] Error fetching stats:', error);
     return {
       totalRevokes: 0,
       totalValueSecured: '0',
-      recentRevokes: []
+      unpricedRevokes: 0,
+      pendingRevokes: 0,
+      topRevokes: []
     };
   }
 }
-
-export async function getAllRevokeStats(): Promise<{ totalRevokes: number; totalValueSecured: string }> {
-  return {
-    totalRevokes: 0,
-    totalValueSecured: '0'
-  };
-}
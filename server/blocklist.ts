@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Directory of feed files (*.json / *.csv); each file is one feed named after it
+const FEED_DIR = process.env.BLOCKLIST_DIR || path.resolve(process.cwd(), 'blocklists');
+const RELOAD_INTERVAL_MS = parseInt(process.env.BLOCKLIST_RELOAD_MS || '600000', 10) || 600000;
+// Addresses from the comma-separated SPENDER_BLOCKLIST env var are reported under this feed name
+const ENV_FEED = 'SPENDER_BLOCKLIST';
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+export interface BlocklistEntry {
+  feed: string;
+  reason?: string;
+}
+
+export interface BlocklistFeedStatus {
+  name: string;
+  entries: number;
+  loadedAt: string | null;
+  error?: string;
+}
+
+interface FeedEntry {
+  address: string;
+  reason?: string;
+}
+
+// lowercased address -> every feed that lists it
+let entries = new Map<string, BlocklistEntry[]>();
+let feeds: BlocklistFeedStatus[] = [];
+let started = false;
+
+/**
+ * Parses a feed file. JSON feeds are an array of addresses or of
+ * { address, reason } objects, optionally wrapped as { addresses: [...] }.
+ * CSV feeds have the address in the first column and an optional reason in the
+ * second; a header row and # comments are skipped.
+ */
+function parseFeed(fileName: string, content: string): FeedEntry[] {
+  let parsed: FeedEntry[];
+  if (fileName.endsWith('.json')) {
+    const data = JSON.parse(content);
+    const list: unknown[] = Array.isArray(data) ? data : data?.addresses;
+    if (!Array.isArray(list)) throw new Error('expected an array of addresses');
+    parsed = list.map(item => typeof item === 'string'
+      ? { address: item }
+      : { address: String((item as any)?.address ?? ''), reason: (item as any)?.reason || undefined });
+  } else {
+    parsed = content
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => {
+        const [address, ...reason] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+        return { address, reason: reason.join(', ') || undefined };
+      });
+  }
+  // Header rows and malformed lines drop out here
+  return parsed
+    .filter(entry => ADDRESS_PATTERN.test(entry.address))
+    .map(entry => ({ ...entry, address: entry.address.toLowerCase() }));
+}
+
+async function readFeedFiles(): Promise<{ name: string; entries: FeedEntry[]; error?: string }[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(FEED_DIR)).filter(file => file.endsWith('.json') || file.endsWith('.csv')).sort();
+  } catch (e: any) {
+    if (e.code !== 'ENOENT') console.error(`[Blocklist] Cannot read feed directory ${FEED_DIR}:`, e);
+    return [];
+  }
+
+  return Promise.all(files.map(async (file) => {
+    const name = path.basename(file, path.extname(file));
+    try {
+      return { name, entries: parseFeed(file, await fs.readFile(path.join(FEED_DIR, file), 'utf8')) };
+    } catch (e: any) {
+      console.error(`[Blocklist] Feed ${file} could not be loaded:`, e);
+      return { name, entries: [], error: e.message || String(e) };
+    }
+  }));
+}
+
+/**
+ * Reloads every feed. A feed that fails to parse keeps its previously loaded
+ * entries so a bad edit cannot silently unlist known drainers.
+ */
+export async function reloadBlocklist(): Promise<void> {
+  const envEntries = (process.env.SPENDER_BLOCKLIST || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(address => ADDRESS_PATTERN.test(address))
+    .map(address => ({ address: address.toLowerCase() }));
+
+  const loaded = await readFeedFiles();
+  if (envEntries.length > 0) loaded.unshift({ name: ENV_FEED, entries: envEntries });
+
+  const now = new Date().toISOString();
+  const next = new Map<string, BlocklistEntry[]>();
+  const nextFeeds: BlocklistFeedStatus[] = [];
+
+  for (const feed of loaded) {
+    let feedEntries = feed.entries;
+    let loadedAt: string | null = now;
+    if (feed.error) {
+      // Keep serving what this feed listed before the failed reload
+      feedEntries = Array.from(entries.entries()).flatMap(([address, matches]) =>
+        matches.filter(m => m.feed === feed.name).map(m => ({ address, reason: m.reason }))
+      );
+      loadedAt = feeds.find(f => f.name === feed.name)?.loadedAt ?? null;
+    }
+
+    for (const entry of feedEntries) {
+      const matches = next.get(entry.address) || [];
+      if (!matches.some(m => m.feed === feed.name)) {
+        matches.push({ feed: feed.name, reason: entry.reason });
+      }
+      next.set(entry.address, matches);
+    }
+    nextFeeds.push({ name: feed.name, entries: feedEntries.length, loadedAt, error: feed.error });
+  }
+
+  const added = Array.from(next.keys()).filter(address => !entries.has(address)).length;
+  entries = next;
+  feeds = nextFeeds;
+  if (added > 0 || nextFeeds.some(f => f.error)) {
+    console.log(`[Blocklist] Loaded ${next.size} address(es) from ${nextFeeds.length} feed(s), ${added} new`);
+  }
+}
+
+// Every feed listing the address; empty when it is not blocklisted
+export function getBlocklistMatches(address: string): BlocklistEntry[] {
+  return entries.get(address.toLowerCase()) || [];
+}
+
+export function getBlocklistFeeds(): BlocklistFeedStatus[] {
+  return feeds;
+}
+
+async function loop(): Promise<void> {
+  try {
+    await reloadBlocklist();
+  } catch (e) {
+    console.error('[Blocklist] Reload failed:', e);
+  }
+  setTimeout(loop, RELOAD_INTERVAL_MS);
+}
+
+export function startBlocklistFeeds(): void {
+  if (started) return;
+  started = true;
+  console.log(`[Blocklist] Watching feeds in ${FEED_DIR}`);
+  loop();
+}
@@ -0,0 +1,222 @@
+import { ethers } from 'ethers';
+import type { InsertApprovalEvent, InsertPermit2Event, InsertTransferEvent } from '@shared/schema';
+
+export const ARCSCAN_API = 'https://testnet.arcscan.app/api';
+export const ARC_RPC_URL = 'https://rpc.testnet.arc.network';
+export const ARC_CHAIN_ID = 5042002;
+export const APPROVAL_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+export const APPROVAL_FOR_ALL_TOPIC = '0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31';
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+export const PERMIT2_APPROVAL_TOPIC = '0xda9fa7c1b00402c17d0161b249b1ab8bbec047c5a52207b9c112deffd817036b';
+export const PERMIT2_PERMIT_TOPIC = '0xc6a377bfc4eb120024a8ac08eef205be16b817020812c73223e81d1bdb9708ec';
+export const PERMIT2_LOCKDOWN_TOPIC = '0x89b1add15eff56b3dfe299ad94e01f2b52fbcb80ae1a3baea6ae8c04cb2b98a4';
+// Checkpoint scope of the chain-wide RPC indexer (see indexer.ts)
+export const INDEXER_SCOPE = 'indexer';
+
+// A log as returned by any data source (see sources.ts), with its block timestamp resolved
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string | null;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+}
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+export function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(ARC_RPC_URL);
+  }
+  return provider;
+}
+
+// Calls the ArcScan (Etherscan-compatible) API and returns its `result` array
+export async function fetchExplorer(params: string): Promise<any[]> {
+  const response = await fetch(`${ARCSCAN_API}?${params}`);
+  if (!response.ok) {
+    throw new Error(`ArcScan responded with ${response.status}`);
+  }
+  const data = await response.json();
+  // Empty results still come back as an array ("No logs found"); errors do not
+  if (!Array.isArray(data.result)) {
+    throw new Error(`ArcScan error: ${data.message || 'unexpected response'}`);
+  }
+  return data.result;
+}
+
+export function toOwnerTopic(address: string): string {
+  return '0x' + address.toLowerCase().replace('0x', '').padStart(64, '0');
+}
+
+// Explorer log fields (timeStamp, blockNumber, logIndex) come back hex-encoded or decimal
+export function parseExplorerNumber(value: string | undefined): number {
+  if (!value) return 0;
+  return (value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10)) || 0;
+}
+
+// Most RPC reads in flight at once; ethers sends the reads of a chunk as one JSON-RPC batch
+const RPC_READ_CHUNK_SIZE = 50;
+
+// Runs `read` on the items a chunk at a time, so long lists (a log range can span thousands of blocks) do not flood the node
+async function readInChunks<T>(items: T[], read: (item: T) => Promise<void>): Promise<void> {
+  for (let i = 0; i < items.length; i += RPC_READ_CHUNK_SIZE) {
+    await Promise.all(items.slice(i, i + RPC_READ_CHUNK_SIZE).map(read));
+  }
+}
+
+export async function getBlockTimestamps(blockNumbers: number[]): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  await readInChunks(Array.from(new Set(blockNumbers)), async (blockNumber) => {
+    const block = await getProvider().getBlock(blockNumber);
+    timestamps.set(blockNumber, block?.timestamp || 0);
+  });
+  return timestamps;
+}
+
+export interface TxParties {
+  from: string;
+  // Null for contract creations
+  to: string | null;
+}
+
+// Transactions never change, so their sender and target are cached. The cache only spares repeat reads:
+// the parties that matter are stored with the indexed events (transfer_events, approvals), so it keeps the most recently used
+const TX_PARTIES_CACHE_SIZE = 10000;
+const txPartiesCache = new Map<string, TxParties>();
+
+// Maps keep insertion order, so re-inserting marks an entry as recently used and the first key is the oldest
+function cacheTxParties(hash: string, parties: TxParties): void {
+  txPartiesCache.delete(hash);
+  txPartiesCache.set(hash, parties);
+  if (txPartiesCache.size > TX_PARTIES_CACHE_SIZE) {
+    txPartiesCache.delete(txPartiesCache.keys().next().value!);
+  }
+}
+
+// Sender and target of each transaction; transactions that could not be loaded are left out
+export async function getTxParties(txHashes: string[]): Promise<Map<string, TxParties>> {
+  const provider = getProvider();
+  const parties = new Map<string, TxParties>();
+  const missing: string[] = [];
+  for (const hash of Array.from(new Set(txHashes))) {
+    const cached = txPartiesCache.get(hash);
+    if (cached) {
+      cacheTxParties(hash, cached);
+      parties.set(hash, cached);
+    } else {
+      missing.push(hash);
+    }
+  }
+
+  await readInChunks(missing, async (hash) => {
+    try {
+      const tx = await provider.getTransaction(hash);
+      if (!tx) return;
+      const read = { from: tx.from.toLowerCase(), to: tx.to ? tx.to.toLowerCase() : null };
+      cacheTxParties(hash, read);
+      parties.set(hash, read);
+    } catch (e) {
+      console.error(`[Chain] Could not load transaction ${hash}:`, e);
+    }
+  });
+  return parties;
+}
+
+type ParsedApprovalLog = Pick<InsertApprovalEvent, 'eventType' | 'ownerAddress' | 'tokenAddress' | 'spenderAddress' | 'amount' | 'tokenId'>;
+
+/**
+ * Decodes an Approval / ApprovalForAll log. ERC-20 and ERC-721 Approval share a
+ * topic; ERC-721 indexes the token id as a fourth topic and carries no data.
+ */
+export function parseApprovalLog(address: string, topics: readonly string[], data: string): ParsedApprovalLog | null {
+  const [topic0, ownerTopic, spenderTopic, tokenIdTopic] = topics;
+  if (!address || !ownerTopic || !spenderTopic) return null;
+
+  const base = {
+    ownerAddress: ('0x' + ownerTopic.slice(-40)).toLowerCase(),
+    tokenAddress: address.toLowerCase(),
+    spenderAddress: ('0x' + spenderTopic.slice(-40)).toLowerCase()
+  };
+  const value = BigInt(data && data !== '0x' ? data : 0);
+
+  if (topic0 === APPROVAL_TOPIC && topics.length === 3) {
+    return { ...base, eventType: 'Approval', amount: value.toString(), tokenId: null };
+  }
+  if (topic0 === APPROVAL_TOPIC && topics.length === 4) {
+    const approved = base.spenderAddress !== ethers.ZeroAddress;
+    return { ...base, eventType: 'ERC721Approval', amount: approved ? '1' : '0', tokenId: BigInt(tokenIdTopic).toString() };
+  }
+  if (topic0 === APPROVAL_FOR_ALL_TOPIC) {
+    return { ...base, eventType: 'ApprovalForAll', amount: value === BigInt(0) ? '0' : '1', tokenId: null };
+  }
+  return null;
+}
+
+export function toApprovalEvent(log: RawLog): InsertApprovalEvent | null {
+  try {
+    const parsed = parseApprovalLog(log.address, log.topics, log.data);
+    if (!parsed) return null;
+    return {
+      ...parsed,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.logIndex,
+      txHash: log.txHash,
+      timestamp: log.timestamp
+    };
+  } catch {
+    return null;
+  }
+}
+
+// approve(spender, 0) and setApprovalForAll(operator, false); ERC-721 single-token approvals are not revokes
+export const isRevokeEvent = (event: Pick<InsertApprovalEvent, 'eventType' | 'amount'>) =>
+  (event.eventType === 'Approval' || event.eventType === 'ApprovalForAll') && event.amount === '0';
+
+/**
+ * Fills in the transaction sender of revoke events. Tokens also emit
+ * Approval(owner, spender, 0) when a spender's transferFrom uses up the
+ * allowance, so only events whose transaction the owner sent are revokes.
+ */
+export async function withRevokeSenders(events: InsertApprovalEvent[]): Promise<InsertApprovalEvent[]> {
+  const parties = await getTxParties(events.filter(isRevokeEvent).map(e => e.txHash));
+  return events.map(event => isRevokeEvent(event) ? { ...event, txFrom: parties.get(event.txHash)?.from ?? null } : event);
+}
+
+// Permit2 Approval and Permit logs index (owner, token, spender) the same way
+export function toPermit2Event(log: RawLog): InsertPermit2Event | null {
+  const [, ownerTopic, tokenTopic, spenderTopic] = log.topics;
+  if (!ownerTopic || !tokenTopic || !spenderTopic) return null;
+  return {
+    ownerAddress: ('0x' + ownerTopic.slice(-40)).toLowerCase(),
+    tokenAddress: ('0x' + tokenTopic.slice(-40)).toLowerCase(),
+    spenderAddress: ('0x' + spenderTopic.slice(-40)).toLowerCase(),
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    txHash: log.txHash,
+    timestamp: log.timestamp
+  };
+}
+
+// ERC-20 Transfer logs only; ERC-721 Transfer shares the topic but indexes the token id as a fourth topic
+export function toTransferEvent(log: RawLog): InsertTransferEvent | null {
+  if (log.topics.length !== 3) return null;
+  try {
+    return {
+      ownerAddress: ('0x' + log.topics[1].slice(-40)).toLowerCase(),
+      tokenAddress: log.address.toLowerCase(),
+      recipientAddress: ('0x' + log.topics[2].slice(-40)).toLowerCase(),
+      amount: BigInt(log.data && log.data !== '0x' ? log.data : 0).toString(),
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      txHash: log.txHash,
+      timestamp: log.timestamp
+    };
+  } catch {
+    return null;
+  }
+}
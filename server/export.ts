@@ -0,0 +1,121 @@
+import type { Response } from 'express';
+import type { DetectedApproval, HeldToken, ScanMeta, WalletRevoke } from '@shared/schema';
+
+export type ExportFormat = 'csv' | 'json';
+
+type CellValue = string | number | boolean | null | undefined;
+
+interface ExportColumn<T> {
+  header: string;
+  value: (item: T) => CellValue;
+}
+
+// Amounts stay raw base-unit strings; `decimals` sits next to them so nothing is rounded away
+export const APPROVAL_COLUMNS: ExportColumn<DetectedApproval>[] = [
+  { header: 'token_address', value: a => a.tokenAddress },
+  { header: 'token_symbol', value: a => a.tokenSymbol },
+  { header: 'token_name', value: a => a.tokenName },
+  { header: 'decimals', value: a => a.decimals },
+  { header: 'spender_address', value: a => a.spenderAddress },
+  { header: 'spender_label', value: a => a.spenderLabel?.name },
+  { header: 'allowance', value: a => a.allowance },
+  { header: 'allowance_class', value: a => a.allowanceClass },
+  { header: 'balance', value: a => a.balance },
+  { header: 'total_supply', value: a => a.totalSupply },
+  { header: 'exposure', value: a => a.exposure },
+  { header: 'price_usd', value: a => a.price?.priceUsd },
+  { header: 'price_source', value: a => a.price?.source },
+  { header: 'price_updated_at', value: a => a.price?.updatedAt },
+  { header: 'value_at_risk_usd', value: a => a.valueAtRisk },
+  { header: 'exposure_usd', value: a => a.exposureUsd },
+  { header: 'approval_timestamp', value: a => a.approvalTimestamp },
+  { header: 'last_used_timestamp', value: a => a.lastUsedTimestamp },
+  { header: 'total_pulled', value: a => a.totalPulled },
+  { header: 'dormant', value: a => a.isDormant },
+  { header: 'risk_score', value: a => a.risk?.score },
+  { header: 'risk_level', value: a => a.risk?.level },
+  { header: 'risk_reasons', value: a => a.risk?.reasons.join('; ') },
+  { header: 'flagged_by', value: a => a.flaggedBy?.join('; ') },
+];
+
+export const HELD_TOKEN_COLUMNS: ExportColumn<HeldToken>[] = [
+  { header: 'token_address', value: t => t.contractAddress },
+  { header: 'symbol', value: t => t.symbol },
+  { header: 'name', value: t => t.name },
+  { header: 'decimals', value: t => t.decimals },
+  { header: 'balance', value: t => t.balance },
+];
+
+export const REVOKE_COLUMNS: ExportColumn<WalletRevoke>[] = [
+  { header: 'timestamp', value: r => r.timestamp },
+  { header: 'block_number', value: r => r.blockNumber },
+  { header: 'tx_hash', value: r => r.txHash },
+  { header: 'event_type', value: r => r.eventType },
+  { header: 'token_address', value: r => r.tokenAddress },
+  { header: 'token_symbol', value: r => r.tokenSymbol },
+  { header: 'spender_address', value: r => r.spenderAddress },
+  { header: 'spender_label', value: r => r.spenderLabel?.name },
+  { header: 'value_secured_usd', value: r => r.valueSecured },
+  { header: 'revoked_amount', value: r => r.valuation?.revokedAmount },
+  { header: 'balance_at_revoke', value: r => r.valuation?.balanceAtRevoke },
+  { header: 'balance_block', value: r => r.valuation?.balanceBlock },
+  { header: 'token_decimals', value: r => r.valuation?.tokenDecimals },
+  { header: 'price_usd', value: r => r.valuation?.priceUsd },
+  { header: 'price_source', value: r => r.valuation?.priceSource },
+];
+
+// Undefined when no format was asked for (the endpoint's normal response), null when it is not supported
+export function parseExportFormat(value: unknown): ExportFormat | null | undefined {
+  if (value === undefined) return undefined;
+  return value === 'csv' || value === 'json' ? value : null;
+}
+
+// Token symbols and labels are attacker-controlled, so cells that a spreadsheet would run as a formula are defused
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Sends a scan as a downloadable snapshot. Both formats carry the wallet, the
+ * block the state was read at, the scan time and the data sources, so a later
+ * review can tell exactly what was looked at: the JSON form wraps the items,
+ * the CSV form starts with "# key: value" lines before the header row.
+ */
+export function sendExport<T>(res: Response, format: ExportFormat, kind: string, walletAddress: string, meta: ScanMeta, items: T[], columns: ExportColumn<T>[]): void {
+  const wallet = walletAddress.toLowerCase();
+  const exportedAt = new Date().toISOString();
+  const filename = `arcrevoke-${kind}-${wallet}${meta.blockNumber !== undefined ? `-${meta.blockNumber}` : ''}.${format}`;
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'json') {
+    res.json({
+      kind,
+      wallet,
+      exportedAt,
+      scan: {
+        blockNumber: meta.blockNumber ?? null,
+        scannedAt: meta.scannedAt ?? null,
+        sources: meta.sources,
+        partial: meta.partial
+      },
+      items
+    });
+    return;
+  }
+
+  const preamble = [
+    ['kind', kind],
+    ['wallet', wallet],
+    ['block_number', meta.blockNumber ?? ''],
+    ['scanned_at', meta.scannedAt !== undefined ? new Date(meta.scannedAt * 1000).toISOString() : ''],
+    ['sources', meta.sources.join(',')],
+    ['partial', meta.partial],
+    ['exported_at', exportedAt],
+  ].map(([key, value]) => `# ${key}: ${value}`);
+  const rows = items.map(item => columns.map(column => csvCell(column.value(item))).join(','));
+
+  res.type('text/csv').send([...preamble, columns.map(column => column.header).join(','), ...rows].join('\n') + '\n');
+}
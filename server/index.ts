@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startIndexer } from "./indexer";
+import { startBlocklistFeeds } from "./blocklist";
+import { loadTokenListFiles } from "./tokens";
 import { createServer } from "http";
 
 const app = express();
@@ -61,6 +64,12 @@ app.use((req, res, next) => {
 
 (async () => {
   await registerRoutes(httpServer, app);
+  startBlocklistFeeds();
+  loadTokenListFiles();
+
+  if (process.env.INDEXER_ENABLED === "true") {
+    startIndexer();
+  }
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
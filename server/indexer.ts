@@ -0,0 +1,91 @@
+import type { InsertApprovalEvent } from '@shared/schema';
+import { storage } from './storage';
+import { APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC, INDEXER_SCOPE, getProvider, getTxParties, toApprovalEvent, withRevokeSenders } from './chain';
+import { rpcSource } from './sources';
+
+const START_BLOCK = parseInt(process.env.INDEXER_START_BLOCK || '0', 10) || 0;
+// Blocks handled per pass while backfilling
+const BATCH_SIZE = parseInt(process.env.INDEXER_BATCH_SIZE || '20000', 10) || 20000;
+const POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_MS || '5000', 10) || 5000;
+// Blocks behind the head that are re-fetched on every pass so reorged logs get replaced
+const REORG_DEPTH = parseInt(process.env.INDEXER_REORG_DEPTH || '12', 10) || 12;
+// Revoke transactions stored without their sender (indexed before senders were recorded) resolved per pass
+const SENDER_BACKFILL_SIZE = 100;
+
+let running = false;
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs one indexing pass: backfills up to a batch of history past the checkpoint,
+ * or, once caught up, re-reads the last REORG_DEPTH blocks plus any new ones.
+ * Resolves to true when the index has reached the chain head.
+ */
+export async function indexOnce(): Promise<boolean> {
+  const head = await getProvider().getBlockNumber();
+  const checkpoint = await storage.getScanCheckpoint(INDEXER_SCOPE);
+  const lastBlock = checkpoint ? checkpoint.lastBlock : START_BLOCK - 1;
+  const fromBlock = Math.max(START_BLOCK, Math.min(lastBlock + 1, head - REORG_DEPTH));
+  const requestedTo = Math.min(head, lastBlock + BATCH_SIZE);
+
+  if (fromBlock > requestedTo) return true;
+
+  // Logs always come from the node itself, never from the explorer
+  const result = await rpcSource.getLogs({ topic0: [APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC], fromBlock, toBlock: requestedTo });
+  const toBlock = result.coveredTo;
+  if (toBlock < fromBlock) {
+    throw new Error(`eth_getLogs failed for block ${fromBlock}`);
+  }
+
+  const events = result.logs
+    .map(toApprovalEvent)
+    .filter((e): e is InsertApprovalEvent => e !== null);
+  await storage.replaceApprovalEventsInRange(fromBlock, toBlock, await withRevokeSenders(events));
+  await storage.setScanCheckpoint(INDEXER_SCOPE, toBlock, checkpoint?.fromBlock ?? START_BLOCK);
+
+  if (events.length > 0 || toBlock < head) {
+    console.log(`[Indexer] Indexed blocks ${fromBlock}-${toBlock} (${events.length} event(s), head ${head})`);
+  }
+  await backfillRevokeSenders();
+  return toBlock >= head;
+}
+
+// Revoke events only count once their sender is known, so older rows get theirs a batch at a time
+async function backfillRevokeSenders(): Promise<void> {
+  const txHashes = await storage.getUnresolvedRevokeTxHashes(SENDER_BACKFILL_SIZE);
+  if (txHashes.length === 0) return;
+  const parties = await getTxParties(txHashes);
+  await storage.setRevokeSenders(Array.from(parties.entries()).map(([txHash, tx]) => ({ txHash, from: tx.from })));
+  console.log(`[Indexer] Resolved the sender of ${parties.size}/${txHashes.length} revoke transaction(s)`);
+}
+
+async function loop(): Promise<void> {
+  if (!running) return;
+
+  let delay = POLL_INTERVAL_MS;
+  try {
+    const caughtUp = await indexOnce();
+    // Keep backfilling without waiting while behind the head
+    if (!caughtUp) delay = 0;
+  } catch (error) {
+    console.error('[Indexer] Indexing pass failed:', error);
+  }
+
+  if (running) {
+    timer = setTimeout(loop, delay);
+  }
+}
+
+export function startIndexer(): void {
+  if (running) return;
+  running = true;
+  console.log(`[Indexer] Starting RPC log indexer from block ${START_BLOCK}`);
+  loop();
+}
+
+export function stopIndexer(): void {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,25 @@
+import type { SpenderLabelInfo } from '@shared/schema';
+import { storage } from './storage';
+
+/**
+ * Looks up the registry labels of many addresses at once, keyed by lowercased
+ * address. Unlabelled addresses are simply missing from the map.
+ */
+export async function getLabelInfos(addresses: string[]): Promise<Map<string, SpenderLabelInfo>> {
+  const unique = Array.from(new Set(addresses.map(a => a.toLowerCase())));
+  const labels = new Map<string, SpenderLabelInfo>();
+  try {
+    for (const label of await storage.getSpenderLabels(unique)) {
+      labels.set(label.address, {
+        name: label.name,
+        project: label.project,
+        category: label.category,
+        verified: label.verified
+      });
+    }
+  } catch (e) {
+    // Labels are decoration; a scan should not fail because the registry is unavailable
+    console.error('[Labels] Label lookup failed:', e);
+  }
+  return labels;
+}
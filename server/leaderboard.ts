@@ -0,0 +1,61 @@
+import { ethers } from 'ethers';
+import type { Leaderboard, LeaderboardSort, LeaderboardWindow } from '@shared/schema';
+import { LEADERBOARD_WINDOWS, leaderboardConsentMessage } from '@shared/leaderboard';
+import { storage } from './storage';
+
+const CACHE_TTL_MS = parseInt(process.env.LEADERBOARD_CACHE_MS || '60000', 10) || 60000;
+export const LEADERBOARD_SIZE = 100;
+// A consent signature is only accepted this long after the time it states
+const CONSENT_MAX_AGE_MS = 10 * 60 * 1000;
+const DAY_SECONDS = 86400;
+
+// "window:sort" -> leaderboard
+const leaderboardCache = new Map<string, { leaderboard: Leaderboard; fetchedAt: number }>();
+
+// Ranks wallets by revokes performed or value secured over a window; ties are broken by the other metric
+export async function getLeaderboard(window: LeaderboardWindow, sort: LeaderboardSort): Promise<Leaderboard> {
+  const key = `${window}:${sort}`;
+  const cached = leaderboardCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.leaderboard;
+
+  const days = LEADERBOARD_WINDOWS[window].days;
+  const since = days === null ? null : Math.floor(Date.now() / 1000) - days * DAY_SECONDS;
+  const rows = await storage.getLeaderboard(since, sort, LEADERBOARD_SIZE);
+  const leaderboard: Leaderboard = {
+    window,
+    sort,
+    entries: rows.map((row, i) => ({ rank: i + 1, ...row }))
+  };
+  leaderboardCache.set(key, { leaderboard, fetchedAt: Date.now() });
+  return leaderboard;
+}
+
+/**
+ * Applies a wallet's signed opt-out (or opt-in) after checking the signature
+ * recovers to that wallet and was issued in the last few minutes. Resolves to
+ * an error message when the consent is rejected, or null once it is applied.
+ * Smart contract wallets cannot produce such a signature.
+ */
+export async function setLeaderboardConsent(address: string, optOut: boolean, issuedAt: string, signature: string): Promise<string | null> {
+  const issued = Date.parse(issuedAt);
+  if (isNaN(issued)) return 'Invalid issue time';
+  const age = Date.now() - issued;
+  if (age > CONSENT_MAX_AGE_MS || age < -CONSENT_MAX_AGE_MS) return 'Signature expired, sign a new message';
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(leaderboardConsentMessage(address, optOut, issuedAt), signature);
+  } catch {
+    return 'Malformed signature';
+  }
+  if (signer.toLowerCase() !== address.toLowerCase()) return 'Signature was not made by this wallet';
+
+  if (optOut) {
+    await storage.setLeaderboardOptOut(address, signature, new Date(issued));
+  } else {
+    await storage.deleteLeaderboardOptOut(address, new Date(issued));
+  }
+  leaderboardCache.clear();
+  console.log(`[Leaderboard] ${address.toLowerCase()} opted ${optOut ? 'out' : 'back in'}`);
+  return null;
+}
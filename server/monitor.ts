@@ -0,0 +1,150 @@
+import type { ApprovalStreamEvent, InsertApprovalEvent } from '@shared/schema';
+import { storage } from './storage';
+import { APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC, getProvider, toApprovalEvent } from './chain';
+import { rpcSource } from './sources';
+import { nftApprovalId, readApprovals, readNftApproval } from './approvals';
+
+const POLL_INTERVAL_MS = parseInt(process.env.MONITOR_POLL_MS || '3000', 10) || 3000;
+// Most blocks read in one pass; a monitor that fell further behind skips ahead (clients rescan on reconnect)
+const MAX_BLOCKS_PER_PASS = 1000;
+
+type Listener = (event: ApprovalStreamEvent) => void;
+
+// lowercased wallet -> open stream listeners
+const listeners = new Map<string, Set<Listener>>();
+
+let running = false;
+let lastBlock: number | null = null;
+let timer: NodeJS.Timeout | null = null;
+// Bumped on every start and stop; a loop (or a poll still in flight) from an earlier run sees it changed and exits
+let generation = 0;
+
+/**
+ * Registers a listener for approval changes of a wallet. The block monitor
+ * runs only while at least one wallet is watched. Returns the unsubscribe function.
+ */
+export function subscribe(walletAddress: string, listener: Listener): () => void {
+  const wallet = walletAddress.toLowerCase();
+  const walletListeners = listeners.get(wallet) || new Set<Listener>();
+  walletListeners.add(listener);
+  listeners.set(wallet, walletListeners);
+  startMonitor();
+
+  return () => {
+    walletListeners.delete(listener);
+    if (walletListeners.size === 0) listeners.delete(wallet);
+    if (listeners.size === 0) stopMonitor();
+  };
+}
+
+export function publish(walletAddress: string, event: ApprovalStreamEvent): void {
+  const walletListeners = listeners.get(walletAddress.toLowerCase());
+  if (!walletListeners) return;
+  for (const listener of Array.from(walletListeners)) {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error('[Monitor] Listener failed:', e);
+    }
+  }
+}
+
+// Re-reads the on-chain state behind new events and pushes the result to the wallet's listeners
+async function publishChanges(walletAddress: string, events: InsertApprovalEvent[]): Promise<void> {
+  const erc20 = events.filter(e => e.eventType === 'Approval');
+  if (erc20.length > 0) {
+    const approvals = await readApprovals(walletAddress, erc20.map(e => ({
+      tokenAddress: e.tokenAddress,
+      spender: e.spenderAddress,
+      timestamp: e.timestamp || 0
+    })));
+    approvals.forEach((approval, id) => {
+      publish(walletAddress, approval ? { type: 'approval', approval } : { type: 'approval-removed', id });
+    });
+  }
+
+  const nft = events.filter(e => e.eventType !== 'Approval');
+  if (nft.some(e => e.eventType === 'ERC721Approval')) {
+    // A new single-token approval replaces (or clears) whatever spender the token had before
+    const previous = await storage.getApprovalEvents(walletAddress, 'ERC721Approval');
+    for (const event of nft.filter(e => e.eventType === 'ERC721Approval')) {
+      previous
+        .filter(p => p.tokenAddress === event.tokenAddress && p.tokenId === event.tokenId && p.spenderAddress !== event.spenderAddress)
+        .forEach(p => publish(walletAddress, { type: 'nft-approval-removed', id: nftApprovalId(p) }));
+    }
+  }
+  for (const event of nft) {
+    const approval = event.amount === '0' ? null : await readNftApproval(walletAddress, event);
+    publish(walletAddress, approval ? { type: 'nft-approval', approval } : { type: 'nft-approval-removed', id: nftApprovalId(event) });
+  }
+}
+
+async function pollOnce(run: number): Promise<void> {
+  const head = await getProvider().getBlockNumber();
+  if (run !== generation) return;
+  if (lastBlock === null || head - lastBlock > MAX_BLOCKS_PER_PASS) {
+    lastBlock = head;
+    return;
+  }
+  if (head <= lastBlock) return;
+
+  const fromBlock = lastBlock + 1;
+  // One unfiltered query covers every watched wallet; only a few blocks are read per pass
+  const result = await rpcSource.getLogs({ topic0: [APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC], fromBlock, toBlock: head });
+  if (run !== generation || result.coveredTo < fromBlock) return;
+  lastBlock = result.coveredTo;
+
+  const events = result.logs
+    .map(toApprovalEvent)
+    .filter((e): e is InsertApprovalEvent => e !== null && listeners.has(e.ownerAddress));
+  if (events.length === 0) return;
+
+  const byWallet = new Map<string, InsertApprovalEvent[]>();
+  for (const event of events) {
+    byWallet.set(event.ownerAddress, [...(byWallet.get(event.ownerAddress) || []), event]);
+  }
+
+  console.log(`[Monitor] ${events.length} approval event(s) for ${byWallet.size} watched wallet(s) in blocks ${fromBlock}-${lastBlock}`);
+  await Promise.all(Array.from(byWallet.entries()).map(async ([wallet, walletEvents]) => {
+    try {
+      await publishChanges(wallet, walletEvents);
+    } catch (e) {
+      console.error(`[Monitor] Failed to publish changes for ${wallet}:`, e);
+    }
+  }));
+  // Kept after publishing so previous ERC-721 approvals are still told apart from the new ones
+  await storage.saveApprovalEvents(events);
+}
+
+async function loop(run: number): Promise<void> {
+  if (run !== generation) return;
+
+  try {
+    await pollOnce(run);
+  } catch (error) {
+    console.error('[Monitor] Block poll failed:', error);
+  }
+
+  if (run === generation) {
+    timer = setTimeout(() => loop(run), POLL_INTERVAL_MS);
+  }
+}
+
+function startMonitor(): void {
+  if (running) return;
+  running = true;
+  generation++;
+  console.log('[Monitor] Watching new blocks for approval changes');
+  loop(generation);
+}
+
+function stopMonitor(): void {
+  running = false;
+  generation++;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  lastBlock = null;
+  console.log('[Monitor] No wallets watched, stopped');
+}
@@ -0,0 +1,256 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PriceSourceName, TokenPrice } from '@shared/schema';
+import { multicall } from '@shared/multicall';
+import { storage } from './storage';
+import { getProvider } from './chain';
+import { getTokenInfos } from './tokens';
+
+// JSON file with fixed prices and the DEX pools to price other tokens from (see readPriceConfig)
+const PRICE_FILE = process.env.PRICE_FILE || path.resolve(process.cwd(), 'prices.json');
+const CACHE_TTL_MS = parseInt(process.env.PRICE_CACHE_MS || '60000', 10) || 60000;
+// Prices not set or moved for this long are still used but reported as stale
+const STALE_AFTER_SECONDS = (parseInt(process.env.PRICE_STALE_AFTER_HOURS || '168', 10) || 168) * 3600;
+// Thin pools are trivial to push around, so they are ignored below this much quote-side liquidity
+const MIN_POOL_LIQUIDITY_USD = parseFloat(process.env.PRICE_MIN_POOL_LIQUIDITY_USD || '1000') || 1000;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const UNISWAP_V2_PAIR = new ethers.Interface([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+]);
+
+interface PriceQuote {
+  priceUsd: number;
+  updatedAt: number;
+  detail?: string;
+}
+
+export interface PriceProvider {
+  name: PriceSourceName;
+  // Quotes for the tokens this provider can price; the others are left out. Only the
+  // DEX provider can look back to `blockTag`; fixed prices are the ones in effect now.
+  getPrices(tokenAddresses: string[], blockTag?: number): Promise<Map<string, PriceQuote>>;
+}
+
+interface PriceConfig {
+  prices: Map<string, PriceQuote>;
+  // Uniswap V2-style pairs, each pricing `token` against the other side of the pool
+  pools: { pool: string; token: string }[];
+}
+
+let config: { mtimeMs: number; value: PriceConfig } | null = null;
+
+/**
+ * Reads the price file, re-parsing it only when it changed on disk:
+ *   { "prices": { "<token>": 1.0, "<token>": { "priceUsd": 2200, "updatedAt": "2026-10-01" } },
+ *     "pools": [{ "pool": "<pair>", "token": "<token priced by the pool>" }] }
+ * Fixed prices are dated by their own updatedAt, or by the file's modification time.
+ * A missing file means no fixed prices and no pools.
+ */
+async function readPriceConfig(): Promise<PriceConfig> {
+  let stat;
+  try {
+    stat = await fs.stat(PRICE_FILE);
+  } catch (e: any) {
+    if (e.code !== 'ENOENT') console.error(`[Prices] Cannot read price file ${PRICE_FILE}:`, e);
+    return { prices: new Map(), pools: [] };
+  }
+  if (config && config.mtimeMs === stat.mtimeMs) return config.value;
+
+  try {
+    const data = JSON.parse(await fs.readFile(PRICE_FILE, 'utf8'));
+    const fileTime = Math.floor(stat.mtimeMs / 1000);
+    const prices = new Map<string, PriceQuote>();
+    for (const [address, entry] of Object.entries<any>(data?.prices || {})) {
+      const priceUsd = typeof entry === 'number' ? entry : Number(entry?.priceUsd);
+      if (!ADDRESS_PATTERN.test(address) || !(priceUsd >= 0)) continue;
+      const dated = typeof entry === 'object' && entry?.updatedAt ? Date.parse(entry.updatedAt) : NaN;
+      prices.set(address.toLowerCase(), {
+        priceUsd,
+        updatedAt: isNaN(dated) ? fileTime : Math.floor(dated / 1000),
+        detail: path.basename(PRICE_FILE)
+      });
+    }
+    const pools = (Array.isArray(data?.pools) ? data.pools : [])
+      .filter((p: any) => ADDRESS_PATTERN.test(p?.pool) && ADDRESS_PATTERN.test(p?.token))
+      .map((p: any) => ({ pool: p.pool.toLowerCase(), token: p.token.toLowerCase() }));
+
+    config = { mtimeMs: stat.mtimeMs, value: { prices, pools } };
+    console.log(`[Prices] Loaded ${prices.size} fixed price(s) and ${pools.length} pool(s) from ${PRICE_FILE}`);
+  } catch (e) {
+    // Keep serving the last good file rather than dropping every price
+    console.error(`[Prices] Price file ${PRICE_FILE} could not be parsed:`, e);
+    if (!config) return { prices: new Map(), pools: [] };
+  }
+  return config!.value;
+}
+
+export const overrideProvider: PriceProvider = {
+  name: 'override',
+
+  async getPrices(tokenAddresses) {
+    const rows = await storage.getPriceOverrides(tokenAddresses);
+    return new Map(rows.map(row => [row.address, {
+      priceUsd: parseFloat(row.priceUsd),
+      updatedAt: row.updatedAt ? Math.floor(row.updatedAt.getTime() / 1000) : 0,
+      detail: row.note || undefined
+    }]));
+  }
+};
+
+export const staticProvider: PriceProvider = {
+  name: 'static',
+
+  async getPrices(tokenAddresses) {
+    const { prices } = await readPriceConfig();
+    const quotes = new Map<string, PriceQuote>();
+    for (const address of tokenAddresses) {
+      const quote = prices.get(address);
+      if (quote) quotes.set(address, quote);
+    }
+    return quotes;
+  }
+};
+
+/**
+ * Prices tokens from the reserves of the configured pools. The other side of a
+ * pool has to be priced by the override table or the price file; when a token
+ * has several pools, the one with the deepest quote-side liquidity wins.
+ */
+export const dexProvider: PriceProvider = {
+  name: 'dex',
+
+  async getPrices(tokenAddresses, blockTag) {
+    const wanted = new Set(tokenAddresses);
+    const pools = (await readPriceConfig()).pools.filter(p => wanted.has(p.token));
+    const quotes = new Map<string, PriceQuote & { liquidityUsd: number }>();
+    if (pools.length === 0) return quotes;
+
+    const results = await multicall(getProvider(), pools.flatMap(p => [
+      { target: p.pool, iface: UNISWAP_V2_PAIR, method: 'token0' },
+      { target: p.pool, iface: UNISWAP_V2_PAIR, method: 'token1' },
+      { target: p.pool, iface: UNISWAP_V2_PAIR, method: 'getReserves' }
+    ]), { blockTag });
+
+    const reads = pools.map((p, i) => {
+      const [token0, token1, reserves] = results.slice(i * 3, i * 3 + 3);
+      if (!token0.success || !token1.success || !reserves.success) {
+        console.warn(`[Prices] Pool ${p.pool} could not be read`);
+        return null;
+      }
+      const tokens = [String(token0.value).toLowerCase(), String(token1.value).toLowerCase()];
+      const side = tokens.indexOf(p.token);
+      if (side === -1) {
+        console.warn(`[Prices] Pool ${p.pool} does not hold ${p.token}`);
+        return null;
+      }
+      const [reserve0, reserve1, blockTimestampLast] = reserves.value as [bigint, bigint, bigint];
+      return {
+        ...p,
+        quoteToken: tokens[1 - side],
+        tokenReserve: side === 0 ? reserve0 : reserve1,
+        quoteReserve: side === 0 ? reserve1 : reserve0,
+        updatedAt: Number(blockTimestampLast)
+      };
+    }).filter((read): read is NonNullable<typeof read> => read !== null);
+
+    const quoteTokens = Array.from(new Set(reads.map(read => read.quoteToken)));
+    const [anchors, fallbackAnchors, infos] = await Promise.all([
+      overrideProvider.getPrices(quoteTokens),
+      staticProvider.getPrices(quoteTokens),
+      getTokenInfos(reads.flatMap(read => [read.token, read.quoteToken]))
+    ]);
+
+    for (const read of reads) {
+      const anchor = anchors.get(read.quoteToken) || fallbackAnchors.get(read.quoteToken);
+      const tokenDecimals = infos.get(read.token)?.decimals;
+      const quoteDecimals = infos.get(read.quoteToken)?.decimals;
+      if (!anchor || tokenDecimals == null || quoteDecimals == null || read.tokenReserve === BigInt(0)) continue;
+
+      const liquidityUsd = parseFloat(ethers.formatUnits(read.quoteReserve, quoteDecimals)) * anchor.priceUsd;
+      if (liquidityUsd < MIN_POOL_LIQUIDITY_USD) continue;
+      const current = quotes.get(read.token);
+      if (current && current.liquidityUsd >= liquidityUsd) continue;
+
+      const ratio = parseFloat(ethers.formatUnits(read.quoteReserve, quoteDecimals)) / parseFloat(ethers.formatUnits(read.tokenReserve, tokenDecimals));
+      quotes.set(read.token, {
+        priceUsd: ratio * anchor.priceUsd,
+        updatedAt: read.updatedAt,
+        detail: `pool ${read.pool}`,
+        liquidityUsd
+      });
+    }
+    return quotes;
+  }
+};
+
+// Tried in order per token; PRICE_SOURCES=dex,static ignores the override table
+const PROVIDERS: PriceProvider[] = (process.env.PRICE_SOURCES || 'override,dex,static')
+  .split(',')
+  .map(name => [overrideProvider, dexProvider, staticProvider].find(provider => provider.name === name.trim()))
+  .filter((provider): provider is PriceProvider => provider !== undefined);
+
+// lowercased token -> price (null when no provider could price it) and when it was resolved
+const priceCache = new Map<string, { price: TokenPrice | null; fetchedAt: number }>();
+
+/**
+ * Resolves USD prices for many tokens, keyed by lowercased address. Tokens no
+ * provider can price are left out; they must not be valued at all rather than
+ * at a guessed price. Prices at a past `blockTag` bypass the cache.
+ */
+export async function getTokenPrices(tokenAddresses: string[], blockTag?: number): Promise<Map<string, TokenPrice>> {
+  const prices = new Map<string, TokenPrice>();
+  let missing: string[] = [];
+  for (const address of Array.from(new Set(tokenAddresses.map(a => a.toLowerCase())))) {
+    const cached = blockTag === undefined ? priceCache.get(address) : undefined;
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      if (cached.price) prices.set(address, cached.price);
+    } else {
+      missing.push(address);
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const fetchedAt = Date.now();
+  let failed = false;
+  for (const provider of PROVIDERS) {
+    if (missing.length === 0) break;
+    let quotes: Map<string, PriceQuote>;
+    try {
+      quotes = await provider.getPrices(missing, blockTag);
+    } catch (e) {
+      console.warn(`[Prices] ${provider.name} prices failed, trying next source:`, e);
+      failed = true;
+      continue;
+    }
+    quotes.forEach((quote, address) => {
+      const price: TokenPrice = {
+        tokenAddress: address,
+        priceUsd: quote.priceUsd,
+        source: provider.name,
+        updatedAt: quote.updatedAt,
+        stale: now - quote.updatedAt > STALE_AFTER_SECONDS,
+        detail: quote.detail
+      };
+      prices.set(address, price);
+      if (blockTag === undefined) priceCache.set(address, { price, fetchedAt });
+    });
+    missing = missing.filter(address => !quotes.has(address));
+  }
+
+  // An unpriced token is only remembered when every source answered
+  if (!failed && blockTag === undefined) {
+    for (const address of missing) {
+      priceCache.set(address, { price: null, fetchedAt });
+    }
+  }
+  return prices;
+}
+
+// Drops every cached price; an override can also move the DEX prices derived from it
+export function clearPriceCache(): void {
+  priceCache.clear();
+}
@@ -0,0 +1,195 @@
+import { randomBytes } from 'crypto';
+import { Resvg } from '@resvg/resvg-js';
+import type { DetectedApproval, DetectedNftApproval, Permit2Allowance, Report, ReportFinding, WalletReport, WalletReportSnapshot } from '@shared/schema';
+import { walletExposure } from '@shared/allowance';
+import { applyMetaTags, getDeploymentUrl } from '../vite-plugin-meta-images';
+import { storage } from './storage';
+import { scanApprovals, scanNftApprovals, scanPermit2Allowances } from './approvals';
+import { getWalletRevokes } from './blockchain';
+import { getLabelInfos } from './labels';
+
+const REPORT_PATH = /^\/report\/([A-Za-z0-9_-]{16})\/?(?:\?.*)?$/;
+const SEVERITY_ORDER: ReportFinding['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+// Blocklisted spenders are critical whatever their score; otherwise only high and critical scores are findings
+function toFinding(
+  kind: ReportFinding['kind'],
+  approval: { tokenAddress: string; tokenSymbol: string; spenderAddress: string; spenderName?: string; risk?: DetectedApproval['risk']; flaggedBy?: string[] }
+): ReportFinding | null {
+  const flagged = !!approval.flaggedBy?.length;
+  const level = flagged ? 'critical' : approval.risk?.level;
+  if (level !== 'critical' && level !== 'high') return null;
+  return {
+    severity: level,
+    kind,
+    tokenAddress: approval.tokenAddress,
+    tokenSymbol: approval.tokenSymbol,
+    spenderAddress: approval.spenderAddress,
+    spenderName: approval.spenderName,
+    reasons: approval.risk?.reasons ?? [],
+    flaggedBy: approval.flaggedBy
+  };
+}
+
+function collectFindings(approvals: DetectedApproval[], nftApprovals: DetectedNftApproval[], permit2Allowances: Permit2Allowance[]): ReportFinding[] {
+  const findings = [
+    ...approvals.map(a => toFinding('erc20', { ...a, spenderName: a.spenderLabel?.name })),
+    ...nftApprovals.map(a => toFinding('nft', {
+      tokenAddress: a.collectionAddress,
+      tokenSymbol: a.collectionSymbol,
+      spenderAddress: a.operatorAddress,
+      spenderName: a.operatorLabel?.name,
+      risk: a.risk,
+      flaggedBy: a.flaggedBy
+    })),
+    ...permit2Allowances.map(a => toFinding('permit2', { ...a, spenderName: a.spenderLabel?.name }))
+  ].filter((finding): finding is ReportFinding => finding !== null);
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+function toWalletReport(report: Report): WalletReport {
+  return {
+    ...report.snapshot,
+    id: report.id,
+    walletAddress: report.walletAddress,
+    createdAt: (report.createdAt ?? new Date()).toISOString()
+  };
+}
+
+/**
+ * Scans a wallet once more and stores the result as a report that never
+ * changes afterwards: active approvals, exposure, risk findings and the full
+ * revoke history, with the block the approvals were read at.
+ */
+export async function createReport(walletAddress: string): Promise<WalletReport> {
+  const wallet = walletAddress.toLowerCase();
+  // Sequential on purpose: the first scan syncs the wallet's events, which the others then read from the index
+  const approvals = await scanApprovals(wallet);
+  const [nftApprovals, permit2Allowances, revokes] = await Promise.all([
+    scanNftApprovals(wallet),
+    scanPermit2Allowances(wallet),
+    // A single read of the history, which values any new revokes once, so the totals below match the items
+    getWalletRevokes(wallet, undefined, Number.MAX_SAFE_INTEGER)
+  ]);
+  const revokeItems = revokes?.page.items ?? [];
+  const totalValueSecured = revokeItems.reduce((sum, r) => sum + (parseFloat(r.valueSecured ?? '') || 0), 0).toFixed(2);
+  const labels = await getLabelInfos(revokeItems.map(r => r.spenderAddress));
+
+  const exposure = walletExposure(approvals.items);
+  const snapshot: WalletReportSnapshot = {
+    scan: approvals.meta,
+    approvals: approvals.items,
+    nftApprovals: nftApprovals.items,
+    permit2Allowances: permit2Allowances.items,
+    exposure: {
+      effectiveUsd: exposure.effectiveUsd,
+      worstCaseUsd: isFinite(exposure.worstCaseUsd) ? exposure.worstCaseUsd : null
+    },
+    findings: collectFindings(approvals.items, nftApprovals.items, permit2Allowances.items),
+    revokes: {
+      totalRevokes: revokeItems.length,
+      totalValueSecured,
+      items: revokeItems.map(r => ({ ...r, spenderLabel: labels.get(r.spenderAddress) || null }))
+    }
+  };
+
+  const report = await storage.createReport({
+    id: randomBytes(12).toString('base64url'),
+    walletAddress: wallet,
+    blockNumber: approvals.meta.blockNumber ?? null,
+    snapshot
+  });
+  console.log(`[Reports] Created report ${report.id} for ${wallet} at block ${report.blockNumber}`);
+  return toWalletReport(report);
+}
+
+export async function getReport(id: string): Promise<WalletReport | undefined> {
+  const report = await storage.getReport(id);
+  return report ? toWalletReport(report) : undefined;
+}
+
+const formatUsd = (value: number | null) => {
+  if (value === null) return 'Unlimited';
+  if (value < 1000) return `$${value.toFixed(2)}`;
+  if (value < 1000000) return `$${(value / 1000).toFixed(2)}K`;
+  return `$${(value / 1000000).toFixed(2)}M`;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function summarize(report: WalletReport): { title: string; description: string } {
+  const wallet = `${report.walletAddress.slice(0, 6)}...${report.walletAddress.slice(-4)}`;
+  const active = report.approvals.length + report.nftApprovals.length + report.permit2Allowances.length;
+  return {
+    title: `ArcRevoke security report for ${wallet}`,
+    description: `${active} active approvals, ${report.findings.length} risk findings, ${formatUsd(report.exposure.effectiveUsd)} exposed, ${report.revokes.totalRevokes} revokes. Snapshot of ${report.createdAt.slice(0, 10)}.`
+  };
+}
+
+// Shrinks long tile values (such as "$123.46K") to fit the 198px inside a tile
+const valueFontSize = (value: string) => Math.min(52, Math.floor(198 / (value.length * 0.7)));
+
+// 1200x630 OpenGraph card of a report, laid out as SVG and rasterized by renderReportImage
+function renderReportCard(report: WalletReport): string {
+  const critical = report.findings.filter(f => f.severity === 'critical').length;
+  const active = report.approvals.length + report.nftApprovals.length + report.permit2Allowances.length;
+  const tiles = [
+    { label: 'ACTIVE APPROVALS', value: String(active), color: '#00f3ff' },
+    { label: 'EFFECTIVE EXPOSURE', value: formatUsd(report.exposure.effectiveUsd), color: '#f87171' },
+    { label: 'RISK FINDINGS', value: String(report.findings.length), color: critical > 0 ? '#ef4444' : report.findings.length > 0 ? '#fb923c' : '#4ade80' },
+    { label: 'REVOKES', value: String(report.revokes.totalRevokes), color: '#4ade80' },
+  ];
+  const block = report.scan.blockNumber !== undefined ? ` · block ${report.scan.blockNumber}` : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="630" viewBox="0 0 1200 630">
+  <rect width="1200" height="630" fill="#05070d"/>
+  <rect x="24" y="24" width="1152" height="582" rx="24" fill="none" stroke="#00f3ff" stroke-opacity="0.35" stroke-width="2"/>
+  <text x="72" y="120" font-family="Orbitron, DejaVu Sans, sans-serif" font-size="48" font-weight="700" fill="#ffffff" letter-spacing="6">ARC<tspan fill="#00f3ff">REVOKE</tspan></text>
+  <text x="72" y="180" font-family="DejaVu Sans, sans-serif" font-size="30" fill="#9ca3af">Wallet security report</text>
+  <text x="72" y="228" font-family="JetBrains Mono, DejaVu Sans Mono, monospace" font-size="26" fill="#ffffff">${escapeXml(report.walletAddress)}</text>
+  ${tiles.map((tile, i) => `<g transform="translate(${72 + i * 270}, 300)">
+    <rect width="246" height="180" rx="16" fill="#0b1220" stroke="${tile.color}" stroke-opacity="0.4"/>
+    <text x="24" y="100" font-family="Orbitron, DejaVu Sans, sans-serif" font-size="${valueFontSize(tile.value)}" font-weight="700" fill="${tile.color}">${escapeXml(tile.value)}</text>
+    <text x="24" y="148" font-family="JetBrains Mono, DejaVu Sans Mono, monospace" font-size="18" fill="#9ca3af">${tile.label}</text>
+  </g>`).join('\n  ')}
+  <text x="72" y="560" font-family="JetBrains Mono, DejaVu Sans Mono, monospace" font-size="20" fill="#6b7280">Snapshot ${escapeXml(report.createdAt.slice(0, 16).replace('T', ' '))} UTC${block}</text>
+</svg>`;
+}
+
+/**
+ * The report card as PNG, the format every network's link preview accepts.
+ * Text falls back to the system sans-serif font where the app's fonts are not installed.
+ */
+export function renderReportImage(report: WalletReport): Buffer {
+  const resvg = new Resvg(renderReportCard(report), {
+    fitTo: { mode: 'original' },
+    font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' }
+  });
+  return resvg.render().asPng();
+}
+
+/**
+ * Gives /report/:id pages their own preview: the report summary as title and
+ * description, and its card as image. Other pages and unknown reports keep the
+ * static tags. `origin` is used when no deployment domain is configured.
+ */
+export async function withReportMeta(url: string, html: string, origin: string): Promise<string> {
+  const match = REPORT_PATH.exec(url);
+  if (!match) return html;
+
+  let report: WalletReport | undefined;
+  try {
+    report = await getReport(match[1]);
+  } catch (e) {
+    console.error(`[Reports] Could not load report ${match[1]} for its preview:`, e);
+  }
+  if (!report) return html;
+
+  const baseUrl = getDeploymentUrl() || origin;
+  return applyMetaTags(html, {
+    ...summarize(report),
+    imageUrl: `${baseUrl}/api/reports/${report.id}/og.png`,
+    imageType: 'image/png'
+  });
+}
@@ -0,0 +1,136 @@
+import type { SpenderRisk } from '@shared/schema';
+import { fetchExplorer, getProvider } from './chain';
+import { getBlocklistMatches } from './blocklist';
+
+// EIP-1967 storage slots holding a proxy's implementation and beacon addresses
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const NEW_CONTRACT_SECONDS = 7 * 86400;
+const YOUNG_CONTRACT_SECONDS = 30 * 86400;
+// On-chain assessments only change when code is deployed, upgraded or verified, so they are reused
+// for a while; blocklist matches are applied on every call so new feed entries show up at once
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+interface Assessment {
+  score: number;
+  reasons: string[];
+}
+
+const assessmentCache = new Map<string, { assessment: Assessment; expiresAt: number }>();
+
+// Creation tx of a contract according to ArcScan; null when unknown (never deployed or explorer down)
+async function getCreationTxHash(address: string): Promise<string | null> {
+  try {
+    const [creation] = await fetchExplorer(`module=contract&action=getcontractcreation&contractaddresses=${address}`);
+    return creation?.txHash || null;
+  } catch {
+    return null;
+  }
+}
+
+async function getCreationTimestamp(txHash: string): Promise<number | null> {
+  const receipt = await getProvider().getTransactionReceipt(txHash);
+  if (!receipt) return null;
+  const block = await getProvider().getBlock(receipt.blockNumber);
+  return block?.timestamp ?? null;
+}
+
+// True / false for verified / unverified source, null when ArcScan could not tell
+async function isVerified(address: string): Promise<boolean | null> {
+  try {
+    const [source] = await fetchExplorer(`module=contract&action=getsourcecode&address=${address}`);
+    return !!source?.SourceCode;
+  } catch {
+    return null;
+  }
+}
+
+async function isProxy(address: string): Promise<boolean> {
+  const slots = await Promise.all([IMPLEMENTATION_SLOT, BEACON_SLOT].map(slot => getProvider().getStorage(address, slot)));
+  return slots.some(value => BigInt(value) !== BigInt(0));
+}
+
+function toLevel(score: number): SpenderRisk['level'] {
+  if (score >= 75) return 'critical';
+  if (score >= 45) return 'high';
+  if (score >= 20) return 'medium';
+  return 'low';
+}
+
+async function assessSpender(address: string): Promise<Assessment> {
+  let score = 0;
+  const reasons: string[] = [];
+  const flag = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const code = await getProvider().getCode(address);
+  if (code === '0x') {
+    // Empty code at an address ArcScan saw deployed means the contract self-destructed
+    if (await getCreationTxHash(address)) {
+      flag(60, 'Contract code has been destroyed');
+    } else {
+      flag(50, 'Spender is a wallet (EOA), not a contract');
+    }
+    return { score, reasons };
+  }
+
+  const [creationTxHash, verified, proxy] = await Promise.all([
+    getCreationTxHash(address),
+    isVerified(address),
+    isProxy(address).catch(() => false)
+  ]);
+
+  const createdAt = creationTxHash ? await getCreationTimestamp(creationTxHash).catch(() => null) : null;
+  if (createdAt) {
+    const age = Math.floor(Date.now() / 1000) - createdAt;
+    if (age < NEW_CONTRACT_SECONDS) flag(30, 'Contract was deployed less than a week ago');
+    else if (age < YOUNG_CONTRACT_SECONDS) flag(10, 'Contract was deployed less than a month ago');
+  }
+  if (verified === false) flag(25, 'Source code is not verified on ArcScan');
+  if (proxy) flag(15, 'Upgradeable proxy - its logic can be replaced');
+
+  return { score, reasons };
+}
+
+function toRisk(address: string, assessment: Assessment): SpenderRisk {
+  const matches = getBlocklistMatches(address);
+  if (matches.length === 0) {
+    const score = Math.min(100, assessment.score);
+    return { score, level: toLevel(score), reasons: assessment.reasons };
+  }
+  const listedBy = matches.map(m => m.reason ? `${m.feed} (${m.reason})` : m.feed).join(', ');
+  return { score: 100, level: 'critical', reasons: [`Flagged as malicious by ${listedBy}`, ...assessment.reasons] };
+}
+
+/**
+ * Scores each spender by how much trust an approval to it requires. On-chain
+ * findings are cached per address; a spender that cannot be assessed (and is
+ * not blocklisted) is left out.
+ */
+export async function scoreSpenders(addresses: string[]): Promise<Map<string, SpenderRisk>> {
+  const now = Date.now();
+  const risks = new Map<string, SpenderRisk>();
+
+  await Promise.all(Array.from(new Set(addresses.map(a => a.toLowerCase()))).map(async (address) => {
+    const cached = assessmentCache.get(address);
+    if (cached && cached.expiresAt > now) {
+      risks.set(address, toRisk(address, cached.assessment));
+      return;
+    }
+    try {
+      const assessment = await assessSpender(address);
+      assessmentCache.set(address, { assessment, expiresAt: now + CACHE_TTL_MS });
+      risks.set(address, toRisk(address, assessment));
+    } catch (e) {
+      console.error(`[Risk] Could not assess spender ${address}:`, e);
+      // A blocklisted spender is critical even when the chain cannot be read
+      if (getBlocklistMatches(address).length > 0) {
+        risks.set(address, toRisk(address, { score: 0, reasons: [] }));
+      }
+    }
+  }));
+
+  return risks;
+}
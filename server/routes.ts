@@ -1,8 +1,60 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { timingSafeEqual } from "crypto";
+import { z } from "zod";
 import { storage } from "./storage";
-import { insertRevokeHistorySchema } from "@shared/schema";
-import { fetchRevokeStatsFromBlockchain } from "./blockchain";
+import { insertRevokeHistorySchema, insertSpenderLabelSchema, insertPriceOverrideSchema, type ApprovalStreamEvent, type ScanMeta, type RevokeValuation, type LeaderboardWindow, type LeaderboardSort } from "@shared/schema";
+import { LEADERBOARD_WINDOWS } from "@shared/leaderboard";
+import { fetchRevokeStatsFromBlockchain, getWalletRevokes } from "./blockchain";
+import { scanApprovals, scanNftApprovals, scanPermit2Allowances, listHeldTokens, getAllowanceHistory } from "./approvals";
+import { subscribe, publish } from "./monitor";
+import { getLabelInfos } from "./labels";
+import { getBlocklistFeeds, getBlocklistMatches } from "./blocklist";
+import { getTokenInfo, ingestTokenList } from "./tokens";
+import { getTokenPrices, clearPriceCache } from "./prices";
+import { valueRevoke, verifyRevokeTransaction } from "./valuation";
+import { getGlobalStats, MAX_STATS_DAYS } from "./stats";
+import { getLeaderboard, setLeaderboardConsent } from "./leaderboard";
+import { parseExportFormat, sendExport, APPROVAL_COLUMNS, HELD_TOKEN_COLUMNS, REVOKE_COLUMNS } from "./export";
+import { createReport, getReport, renderReportImage } from "./reports";
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const TX_HASH_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+// Comment lines keep idle event streams from being closed by proxies
+const STREAM_HEARTBEAT_MS = 25000;
+
+const MAX_LABEL_IMPORT = 5000;
+const MAX_PRICE_TOKENS = 200;
+const MAX_REVOKES_PAGE = 100;
+
+const leaderboardConsentSchema = z.object({
+  address: z.string().regex(ADDRESS_PATTERN),
+  optOut: z.boolean(),
+  issuedAt: z.string().min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/)
+});
+
+// Registry writes (labels, token lists, price overrides) require the ADMIN_TOKEN env var as a bearer token
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(503).json({ error: "Administration is not configured" });
+  }
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+  const provided = Buffer.from(req.headers.authorization || "");
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: "A valid admin token is required" });
+  }
+  next();
+}
+
+// Scan endpoints keep returning plain arrays; provenance travels in headers
+function setScanHeaders(res: Response, meta: ScanMeta) {
+  res.set("X-Scan-Sources", meta.sources.join(","));
+  res.set("X-Scan-Partial", String(meta.partial));
+  if (meta.blockNumber !== undefined) res.set("X-Scan-Block", String(meta.blockNumber));
+  if (meta.scannedAt !== undefined) res.set("X-Scan-Time", String(meta.scannedAt));
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -13,23 +65,60 @@ export async function registerRoutes(
       const walletAddress = req.query.wallet as string | undefined;
       
       if (walletAddress) {
-        const blockchainStats = await fetchRevokeStatsFromBlockchain(walletAddress);
-        return res.json({
-          totalRevokes: blockchainStats.totalRevokes,
-          totalValueSecured: blockchainStats.totalValueSecured
-        });
+        return res.json(await fetchRevokeStatsFromBlockchain(walletAddress));
       }
       
-      res.json({
-        totalRevokes: 0,
-        totalValueSecured: "0"
-      });
+      const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), MAX_STATS_DAYS);
+      res.json(await getGlobalStats(days));
     } catch (error) {
       console.error("Error fetching stats:", error);
       res.status(500).json({ error: "Failed to fetch stats" });
     }
   });
 
+  app.get("/api/leaderboard", async (req, res) => {
+    try {
+      const window = (req.query.window as string | undefined) || "30d";
+      const sort = (req.query.sort as string | undefined) || "revokes";
+      if (!Object.hasOwn(LEADERBOARD_WINDOWS, window)) {
+        return res.status(400).json({ error: `window must be one of ${Object.keys(LEADERBOARD_WINDOWS).join(", ")}` });
+      }
+      if (sort !== "revokes" && sort !== "value") {
+        return res.status(400).json({ error: "sort must be revokes or value" });
+      }
+
+      const leaderboard = await getLeaderboard(window as LeaderboardWindow, sort as LeaderboardSort);
+      const walletAddress = req.query.wallet as string | undefined;
+      if (walletAddress && ADDRESS_PATTERN.test(walletAddress)) {
+        return res.json({ ...leaderboard, optedOut: !!(await storage.getLeaderboardOptOut(walletAddress)) });
+      }
+      res.json(leaderboard);
+    } catch (error) {
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ error: "Failed to fetch leaderboard" });
+    }
+  });
+
+  // Body: { address, optOut, issuedAt, signature }, signature over leaderboardConsentMessage(address, optOut, issuedAt)
+  app.post("/api/leaderboard/consent", async (req, res) => {
+    try {
+      const parsed = leaderboardConsentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error });
+      }
+
+      const { address, optOut, issuedAt, signature } = parsed.data;
+      const rejection = await setLeaderboardConsent(address, optOut, issuedAt, signature);
+      if (rejection) {
+        return res.status(403).json({ error: rejection });
+      }
+      res.json({ address: address.toLowerCase(), optOut });
+    } catch (error) {
+      console.error("Error updating leaderboard consent:", error);
+      res.status(500).json({ error: "Failed to update leaderboard consent" });
+    }
+  });
+
   app.get("/api/stats/blockchain", async (req, res) => {
     try {
       const walletAddress = req.query.wallet as string | undefined;
@@ -46,14 +135,267 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/approvals", async (req, res) => {
+    try {
+      const walletAddress = req.query.wallet as string | undefined;
+      const format = parseExportFormat(req.query.format);
+
+      if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+      if (format === null) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+
+      const { items, meta } = await scanApprovals(walletAddress);
+      setScanHeaders(res, meta);
+      if (format) {
+        return sendExport(res, format, "approvals", walletAddress, meta, items, APPROVAL_COLUMNS);
+      }
+      res.json(items);
+    } catch (error) {
+      console.error("Error scanning approvals:", error);
+      res.status(500).json({ error: "Failed to scan approvals" });
+    }
+  });
+
+  app.get("/api/approvals/history", async (req, res) => {
+    try {
+      const walletAddress = req.query.wallet as string | undefined;
+      const tokenAddress = req.query.token as string | undefined;
+      const spenderAddress = req.query.spender as string | undefined;
+
+      if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+      if (!tokenAddress || !ADDRESS_PATTERN.test(tokenAddress) || !spenderAddress || !ADDRESS_PATTERN.test(spenderAddress)) {
+        return res.status(400).json({ error: "Valid token and spender addresses are required" });
+      }
+
+      const { items, meta } = await getAllowanceHistory(walletAddress, tokenAddress, spenderAddress);
+      setScanHeaders(res, meta);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching allowance history:", error);
+      res.status(500).json({ error: "Failed to fetch allowance history" });
+    }
+  });
+
+  app.get("/api/approvals/stream", (req, res) => {
+    const walletAddress = req.query.wallet as string | undefined;
+
+    if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+      return res.status(400).json({ error: "A valid wallet address is required" });
+    }
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const unsubscribe = subscribe(walletAddress, (event: ApprovalStreamEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), STREAM_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.get("/api/approvals/nft", async (req, res) => {
+    try {
+      const walletAddress = req.query.wallet as string | undefined;
+
+      if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+
+      const { items, meta } = await scanNftApprovals(walletAddress);
+      setScanHeaders(res, meta);
+      res.json(items);
+    } catch (error) {
+      console.error("Error scanning NFT approvals:", error);
+      res.status(500).json({ error: "Failed to scan NFT approvals" });
+    }
+  });
+
+  app.get("/api/approvals/permit2", async (req, res) => {
+    try {
+      const walletAddress = req.query.wallet as string | undefined;
+
+      if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+
+      const { items, meta } = await scanPermit2Allowances(walletAddress);
+      setScanHeaders(res, meta);
+      res.json(items);
+    } catch (error) {
+      console.error("Error scanning Permit2 allowances:", error);
+      res.status(500).json({ error: "Failed to scan Permit2 allowances" });
+    }
+  });
+
+  app.get("/api/tokens", async (req, res) => {
+    try {
+      const walletAddress = req.query.wallet as string | undefined;
+      const format = parseExportFormat(req.query.format);
+
+      if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+      if (format === null) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+
+      const { items, meta } = await listHeldTokens(walletAddress);
+      setScanHeaders(res, meta);
+      if (format) {
+        return sendExport(res, format, "tokens", walletAddress, meta, items, HELD_TOKEN_COLUMNS);
+      }
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching tokens:", error);
+      res.status(500).json({ error: "Failed to fetch tokens" });
+    }
+  });
+
+  app.get("/api/tokens/:address", async (req, res) => {
+    try {
+      if (!ADDRESS_PATTERN.test(req.params.address)) {
+        return res.status(400).json({ error: "A valid token address is required" });
+      }
+
+      const info = await getTokenInfo(req.params.address);
+      res.json({ address: req.params.address.toLowerCase(), ...info });
+    } catch (error) {
+      console.error("Error fetching token metadata:", error);
+      res.status(500).json({ error: "Failed to fetch token metadata" });
+    }
+  });
+
+  // Ingests a Uniswap-format token list; its Arc entries override on-chain metadata
+  app.post("/api/tokens/lists", requireAdmin, async (req, res) => {
+    try {
+      const imported = await ingestTokenList(req.body);
+      res.json({ imported });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid token list", details: error });
+      }
+      console.error("Error ingesting token list:", error);
+      res.status(500).json({ error: "Failed to ingest token list" });
+    }
+  });
+
+  app.get("/api/prices", async (req, res) => {
+    try {
+      const tokens = ((req.query.tokens as string | undefined) || "").split(",").map(a => a.trim()).filter(a => ADDRESS_PATTERN.test(a));
+      if (tokens.length === 0) {
+        return res.status(400).json({ error: "At least one valid token address is required" });
+      }
+      if (tokens.length > MAX_PRICE_TOKENS) {
+        return res.status(400).json({ error: `At most ${MAX_PRICE_TOKENS} tokens can be priced at once` });
+      }
+
+      const prices = await getTokenPrices(tokens);
+      res.json(Array.from(prices.values()));
+    } catch (error) {
+      console.error("Error fetching prices:", error);
+      res.status(500).json({ error: "Failed to fetch prices" });
+    }
+  });
+
+  app.get("/api/prices/overrides", async (_req, res) => {
+    try {
+      res.json(await storage.getPriceOverrides());
+    } catch (error) {
+      console.error("Error fetching price overrides:", error);
+      res.status(500).json({ error: "Failed to fetch price overrides" });
+    }
+  });
+
+  app.put("/api/prices/overrides/:address", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertPriceOverrideSchema.safeParse({ ...req.body, address: req.params.address });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error });
+      }
+
+      const override = await storage.upsertPriceOverride(parsed.data);
+      clearPriceCache();
+      res.json(override);
+    } catch (error) {
+      console.error("Error saving price override:", error);
+      res.status(500).json({ error: "Failed to save price override" });
+    }
+  });
+
+  app.delete("/api/prices/overrides/:address", requireAdmin, async (req, res) => {
+    try {
+      if (!ADDRESS_PATTERN.test(req.params.address)) {
+        return res.status(400).json({ error: "A valid address is required" });
+      }
+
+      const deleted = await storage.deletePriceOverride(req.params.address);
+      if (!deleted) {
+        return res.status(404).json({ error: "Price override not found" });
+      }
+      clearPriceCache();
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting price override:", error);
+      res.status(500).json({ error: "Failed to delete price override" });
+    }
+  });
+
   app.post("/api/revoke", async (req, res) => {
     try {
-      const parsed = insertRevokeHistorySchema.safeParse(req.body);
+      // Value secured and its derivation are computed here, never taken from the client
+      const parsed = insertRevokeHistorySchema.pick({
+        tokenSymbol: true
+      }).extend({
+        walletAddress: z.string().regex(ADDRESS_PATTERN),
+        tokenAddress: z.string().regex(ADDRESS_PATTERN),
+        spenderAddress: z.string().regex(ADDRESS_PATTERN),
+        txHash: z.string().regex(TX_HASH_PATTERN).transform(hash => hash.toLowerCase())
+      }).safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid data", details: parsed.error });
       }
-      
-      const record = await storage.recordRevoke(parsed.data);
+
+      // Posting the same revoke again returns the stored row instead of counting it twice
+      const existing = await storage.getRevoke(parsed.data.txHash, parsed.data.tokenAddress, parsed.data.spenderAddress);
+      if (existing?.verifiedBlock != null) return res.json(existing);
+
+      // Only successful transactions the wallet itself sent that revoked this very pair are recorded
+      const verified = await verifyRevokeTransaction(parsed.data.walletAddress, parsed.data.tokenAddress, parsed.data.spenderAddress, parsed.data.txHash);
+      if ("error" in verified) {
+        return res.status(400).json({ error: verified.error });
+      }
+      // Rows recorded before transactions were checked are confirmed now rather than stored again
+      if (existing) {
+        if (existing.walletAddress.toLowerCase() !== parsed.data.walletAddress.toLowerCase()) {
+          return res.status(400).json({ error: "Revoke is recorded for another wallet" });
+        }
+        return res.json(await storage.markRevokeVerified(existing.id, verified.blockNumber, verified.timestamp));
+      }
+
+      let valuation: RevokeValuation = { valueSecured: "0.00" };
+      try {
+        valuation = await valueRevoke(parsed.data.walletAddress, parsed.data.tokenAddress, parsed.data.spenderAddress, parsed.data.txHash);
+      } catch (error) {
+        console.error("Error valuing revoke:", error);
+      }
+
+      const { record, created } = await storage.recordRevoke({ ...parsed.data, ...valuation, verifiedBlock: verified.blockNumber, revokedAt: verified.timestamp });
+      if (created) {
+        publish(record.walletAddress, { type: "revoke", revoke: record });
+      }
       res.json(record);
     } catch (error) {
       console.error("Error recording revoke:", error);
@@ -61,16 +403,208 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/revokes", async (req, res) => {
+    try {
+      const walletAddress = req.query.wallet as string | undefined;
+      const cursor = req.query.cursor as string | undefined;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 25, 1), MAX_REVOKES_PAGE);
+      const format = parseExportFormat(req.query.format);
+
+      if (!walletAddress || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+      if (format === null) {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+
+      // Exports cover the whole history in one go; cursor and limit only apply to the paged form
+      const result = await getWalletRevokes(walletAddress, format ? undefined : cursor, format ? Number.MAX_SAFE_INTEGER : limit);
+      if (!result) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      const { page, meta } = result;
+      const labels = await getLabelInfos(page.items.map(r => r.spenderAddress));
+      const items = page.items.map(r => ({ ...r, spenderLabel: labels.get(r.spenderAddress) || null }));
+      setScanHeaders(res, meta);
+      if (format) {
+        return sendExport(res, format, "revokes", walletAddress, meta, items, REVOKE_COLUMNS);
+      }
+      res.json({ ...page, items });
+    } catch (error) {
+      console.error("Error fetching wallet revokes:", error);
+      res.status(500).json({ error: "Failed to fetch wallet revokes" });
+    }
+  });
+
   app.get("/api/revokes/recent", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const revokes = await storage.getRecentRevokes(limit);
-      res.json(revokes);
+      const labels = await getLabelInfos(revokes.map(r => r.spenderAddress));
+      res.json(revokes.map(r => ({ ...r, spenderLabel: labels.get(r.spenderAddress.toLowerCase()) })));
     } catch (error) {
       console.error("Error fetching recent revokes:", error);
       res.status(500).json({ error: "Failed to fetch recent revokes" });
     }
   });
 
+  app.post("/api/reports", async (req, res) => {
+    try {
+      const walletAddress = req.body?.wallet;
+
+      if (typeof walletAddress !== "string" || !ADDRESS_PATTERN.test(walletAddress)) {
+        return res.status(400).json({ error: "A valid wallet address is required" });
+      }
+
+      const report = await createReport(walletAddress);
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error creating report:", error);
+      res.status(500).json({ error: "Failed to create report" });
+    }
+  });
+
+  app.get("/api/reports/:id", async (req, res) => {
+    try {
+      const report = await getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      res.status(500).json({ error: "Failed to fetch report" });
+    }
+  });
+
+  // Reports never change, so their preview card can be cached for as long as crawlers like
+  app.get("/api/reports/:id/og.png", async (req, res) => {
+    try {
+      const report = await getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      res.type("image/png").send(renderReportImage(report));
+    } catch (error) {
+      console.error("Error rendering report image:", error);
+      res.status(500).json({ error: "Failed to render report image" });
+    }
+  });
+
+  app.get("/api/labels", async (req, res) => {
+    try {
+      const addresses = req.query.addresses as string | undefined;
+      const list = addresses ? addresses.split(",").map(a => a.trim()).filter(a => ADDRESS_PATTERN.test(a)) : undefined;
+      const labels = await storage.getSpenderLabels(list);
+      res.json(labels);
+    } catch (error) {
+      console.error("Error fetching labels:", error);
+      res.status(500).json({ error: "Failed to fetch labels" });
+    }
+  });
+
+  app.get("/api/labels/:address", async (req, res) => {
+    try {
+      if (!ADDRESS_PATTERN.test(req.params.address)) {
+        return res.status(400).json({ error: "A valid address is required" });
+      }
+
+      const label = await storage.getSpenderLabel(req.params.address);
+      if (!label) {
+        return res.status(404).json({ error: "Label not found" });
+      }
+      res.json(label);
+    } catch (error) {
+      console.error("Error fetching label:", error);
+      res.status(500).json({ error: "Failed to fetch label" });
+    }
+  });
+
+  app.post("/api/labels", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertSpenderLabelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error });
+      }
+
+      if (await storage.getSpenderLabel(parsed.data.address)) {
+        return res.status(409).json({ error: "A label for this address already exists" });
+      }
+      const label = await storage.createSpenderLabel(parsed.data);
+      res.status(201).json(label);
+    } catch (error) {
+      console.error("Error creating label:", error);
+      res.status(500).json({ error: "Failed to create label" });
+    }
+  });
+
+  // Accepts either a bare array of labels or { labels: [...] }; existing addresses are overwritten
+  app.post("/api/labels/import", requireAdmin, async (req, res) => {
+    try {
+      const body = Array.isArray(req.body) ? req.body : req.body?.labels;
+      const parsed = z.array(insertSpenderLabelSchema).max(MAX_LABEL_IMPORT).safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error });
+      }
+
+      const imported = await storage.upsertSpenderLabels(parsed.data);
+      res.json({ imported });
+    } catch (error) {
+      console.error("Error importing labels:", error);
+      res.status(500).json({ error: "Failed to import labels" });
+    }
+  });
+
+  app.put("/api/labels/:address", requireAdmin, async (req, res) => {
+    try {
+      if (!ADDRESS_PATTERN.test(req.params.address)) {
+        return res.status(400).json({ error: "A valid address is required" });
+      }
+      const parsed = insertSpenderLabelSchema.omit({ address: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error });
+      }
+
+      const label = await storage.updateSpenderLabel(req.params.address, parsed.data);
+      if (!label) {
+        return res.status(404).json({ error: "Label not found" });
+      }
+      res.json(label);
+    } catch (error) {
+      console.error("Error updating label:", error);
+      res.status(500).json({ error: "Failed to update label" });
+    }
+  });
+
+  app.delete("/api/labels/:address", requireAdmin, async (req, res) => {
+    try {
+      if (!ADDRESS_PATTERN.test(req.params.address)) {
+        return res.status(400).json({ error: "A valid address is required" });
+      }
+
+      const deleted = await storage.deleteSpenderLabel(req.params.address);
+      if (!deleted) {
+        return res.status(404).json({ error: "Label not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      res.status(500).json({ error: "Failed to delete label" });
+    }
+  });
+
+  app.get("/api/blocklist", (_req, res) => {
+    res.json({ feeds: getBlocklistFeeds() });
+  });
+
+  app.get("/api/blocklist/:address", (req, res) => {
+    if (!ADDRESS_PATTERN.test(req.params.address)) {
+      return res.status(400).json({ error: "A valid address is required" });
+    }
+    const matches = getBlocklistMatches(req.params.address);
+    res.json({ address: req.params.address.toLowerCase(), listed: matches.length > 0, matches });
+  });
+
   return httpServer;
 }
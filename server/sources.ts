@@ -0,0 +1,217 @@
+import { ethers } from 'ethers';
+import type { DataSourceName } from '@shared/schema';
+import {
+  TRANSFER_TOPIC,
+  type RawLog,
+  fetchExplorer,
+  getBlockTimestamps,
+  getProvider,
+  parseExplorerNumber,
+  toOwnerTopic
+} from './chain';
+
+// ArcScan getLogs never returns more than this many entries per request
+const EXPLORER_LOG_LIMIT = 1000;
+const RPC_MAX_CHUNK_SIZE = parseInt(process.env.RPC_LOG_CHUNK_SIZE || '10000', 10) || 10000;
+const RPC_MIN_CHUNK_SIZE = 10;
+// Upper bound on eth_getLogs calls per query; longer ranges come back partial
+const RPC_MAX_CHUNKS = parseInt(process.env.RPC_LOG_MAX_CHUNKS || '500', 10) || 500;
+
+export interface LogQuery {
+  // One topic0 or a list of alternatives
+  topic0: string | string[];
+  // Matched against topic1 (the owner / sender of Approval and Transfer events)
+  ownerAddress?: string;
+  // Matched against topic2 (the recipient of Transfer events)
+  recipientAddress?: string;
+  address?: string;
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface LogResult {
+  logs: RawLog[];
+  // Last block whose logs are all in `logs`; below query.toBlock when the result is partial
+  coveredTo: number;
+  partial: boolean;
+}
+
+export interface TokenContract {
+  contractAddress: string;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+}
+
+export interface TokenResult {
+  tokens: TokenContract[];
+  partial: boolean;
+}
+
+export interface ChainDataSource {
+  name: Exclude<DataSourceName, 'index'>;
+  getLogs(query: LogQuery): Promise<LogResult>;
+  // ERC-20 contracts the wallet holds (or has held, for sources that cannot see balances)
+  getTokenContracts(walletAddress: string): Promise<TokenResult>;
+}
+
+export const explorerSource: ChainDataSource = {
+  name: 'explorer',
+
+  async getLogs(query) {
+    const topic0s = Array.isArray(query.topic0) ? query.topic0 : [query.topic0];
+    const results = await Promise.all(topic0s.map(async (topic0): Promise<LogResult> => {
+      let params = `module=logs&action=getLogs&fromBlock=${query.fromBlock}&toBlock=${query.toBlock}&topic0=${topic0}`;
+      if (query.address) params += `&address=${query.address}`;
+      if (query.ownerAddress) params += `&topic1=${toOwnerTopic(query.ownerAddress)}&topic0_1_opr=and`;
+      if (query.recipientAddress) params += `&topic2=${toOwnerTopic(query.recipientAddress)}&topic0_2_opr=and`;
+
+      const result = await fetchExplorer(params);
+      const logs: RawLog[] = result
+        .filter((log: any) => log.address && log.transactionHash)
+        .map((log: any) => ({
+          address: log.address.toLowerCase(),
+          topics: (log.topics || []).filter(Boolean),
+          data: log.data || '0x',
+          blockNumber: parseExplorerNumber(log.blockNumber),
+          blockHash: log.blockHash?.toLowerCase() || null,
+          logIndex: parseExplorerNumber(log.logIndex),
+          txHash: log.transactionHash.toLowerCase(),
+          timestamp: parseExplorerNumber(log.timeStamp)
+        }));
+
+      if (result.length >= EXPLORER_LOG_LIMIT && logs.length > 0) {
+        // Truncated response: only the blocks before the last returned one are complete
+        const lastSeen = Math.max(...logs.map(log => log.blockNumber));
+        return { logs: logs.filter(log => log.blockNumber < lastSeen), coveredTo: lastSeen - 1, partial: true };
+      }
+      return { logs, coveredTo: query.toBlock, partial: false };
+    }));
+
+    const coveredTo = Math.min(...results.map(r => r.coveredTo));
+    return {
+      logs: results.flatMap(r => r.logs).filter(log => log.blockNumber <= coveredTo),
+      coveredTo,
+      partial: results.some(r => r.partial)
+    };
+  },
+
+  async getTokenContracts(walletAddress) {
+    const result = await fetchExplorer(`module=account&action=tokenlist&address=${walletAddress}`);
+    return {
+      tokens: result.map((token: any) => ({
+        contractAddress: token.contractAddress.toLowerCase(),
+        name: token.name || undefined,
+        symbol: token.symbol || undefined,
+        decimals: token.decimals ? parseInt(token.decimals, 10) : undefined
+      })),
+      partial: false
+    };
+  }
+};
+
+let rpcChunkSize = RPC_MAX_CHUNK_SIZE;
+
+export const rpcSource: ChainDataSource = {
+  name: 'rpc',
+
+  /**
+   * Reads logs with chunked eth_getLogs, shrinking the chunk size whenever the
+   * node rejects a range as too large. Stops at the first range that keeps
+   * failing (or after RPC_MAX_CHUNKS calls) and reports the result as partial.
+   */
+  async getLogs(query) {
+    const provider = getProvider();
+    const topics: (string | string[] | null)[] = [query.topic0];
+    if (query.ownerAddress || query.recipientAddress) {
+      topics.push(query.ownerAddress ? toOwnerTopic(query.ownerAddress) : null);
+    }
+    if (query.recipientAddress) {
+      topics.push(toOwnerTopic(query.recipientAddress));
+    }
+
+    const collected: ethers.Log[] = [];
+    let start = query.fromBlock;
+    let calls = 0;
+    while (start <= query.toBlock && calls < RPC_MAX_CHUNKS) {
+      const end = Math.min(start + rpcChunkSize - 1, query.toBlock);
+      calls++;
+      try {
+        const logs = await provider.getLogs({ address: query.address, fromBlock: start, toBlock: end, topics });
+        collected.push(...logs);
+        start = end + 1;
+      } catch (e) {
+        if (rpcChunkSize <= RPC_MIN_CHUNK_SIZE) {
+          console.error(`[Sources] eth_getLogs ${start}-${end} keeps failing:`, e);
+          break;
+        }
+        rpcChunkSize = Math.max(RPC_MIN_CHUNK_SIZE, Math.floor(rpcChunkSize / 2));
+        console.warn(`[Sources] eth_getLogs ${start}-${end} failed, retrying with chunk size ${rpcChunkSize}`);
+      }
+    }
+
+    if (start > query.toBlock) {
+      // Successful queries let the chunk size grow back towards the configured maximum
+      rpcChunkSize = Math.min(RPC_MAX_CHUNK_SIZE, rpcChunkSize * 2);
+    }
+
+    const timestamps = await getBlockTimestamps(collected.map(log => log.blockNumber));
+    return {
+      logs: collected.map(log => ({
+        address: log.address.toLowerCase(),
+        topics: [...log.topics],
+        data: log.data,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash.toLowerCase(),
+        logIndex: log.index,
+        txHash: log.transactionHash.toLowerCase(),
+        timestamp: timestamps.get(log.blockNumber) || 0
+      })),
+      coveredTo: start - 1,
+      partial: start <= query.toBlock
+    };
+  },
+
+  // Every contract that ever emitted an ERC-20 Transfer to the wallet
+  async getTokenContracts(walletAddress) {
+    const toBlock = await getProvider().getBlockNumber();
+    const result = await this.getLogs({ topic0: TRANSFER_TOPIC, recipientAddress: walletAddress, fromBlock: 0, toBlock });
+    const contracts = new Set(
+      result.logs
+        // ERC-721 Transfer shares the topic but indexes the token id as a fourth topic
+        .filter(log => log.topics.length === 3)
+        .map(log => log.address)
+    );
+    return {
+      tokens: Array.from(contracts).map(contractAddress => ({ contractAddress })),
+      partial: result.partial
+    };
+  }
+};
+
+// Tried in order; DATA_SOURCES=rpc,explorer skips the explorer unless the node fails
+const SOURCES: ChainDataSource[] = (process.env.DATA_SOURCES || 'explorer,rpc')
+  .split(',')
+  .map(name => [explorerSource, rpcSource].find(source => source.name === name.trim()))
+  .filter((source): source is ChainDataSource => source !== undefined);
+
+async function withFallback<T>(label: string, run: (source: ChainDataSource) => Promise<T>): Promise<T & { source: ChainDataSource['name'] }> {
+  let lastError: unknown;
+  for (const source of SOURCES) {
+    try {
+      return { ...await run(source), source: source.name };
+    } catch (e) {
+      lastError = e;
+      console.warn(`[Sources] ${label} via ${source.name} failed, trying next source:`, e);
+    }
+  }
+  throw lastError ?? new Error('No data sources configured');
+}
+
+export function getLogsWithFallback(query: LogQuery) {
+  return withFallback('getLogs', source => source.getLogs(query));
+}
+
+export function getTokenContractsWithFallback(walletAddress: string) {
+  return withFallback('getTokenContracts', source => source.getTokenContracts(walletAddress));
+}
@@ -1,6 +1,7 @@
 import express, { type Express } from "express";
 import fs from "fs";
 import path from "path";
+import { withReportMeta } from "./reports";
 
 export function serveStatic(app: Express) {
   const distPath = path.resolve(__dirname, "public");
@@ -12,6 +13,17 @@ export function serveStatic(app: Express) {
 
   app.use(express.static(distPath));
 
+  // report pages get their own preview tags, everything else falls through to index.html as is
+  app.use("/report/*", async (req, res, next) => {
+    try {
+      const template = await fs.promises.readFile(path.resolve(distPath, "index.html"), "utf-8");
+      const page = await withReportMeta(req.originalUrl, template, `${req.protocol}://${req.get("host")}`);
+      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+    } catch (e) {
+      next(e);
+    }
+  });
+
   // fall through to index.html if the file doesn't exist
   app.use("*", (_req, res) => {
     res.sendFile(path.resolve(distPath, "index.html"));
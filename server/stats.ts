@@ -0,0 +1,61 @@
+import type { GlobalRevokeStats } from '@shared/schema';
+import { storage } from './storage';
+import { INDEXER_SCOPE, getProvider } from './chain';
+
+const CACHE_TTL_MS = parseInt(process.env.STATS_CACHE_MS || '60000', 10) || 60000;
+const DAY_SECONDS = 86400;
+// The indexer polls every few seconds, so a following index sits a few blocks behind the head
+const HEAD_LAG_BLOCKS = 100;
+export const MAX_STATS_DAYS = 365;
+
+// days -> stats; the aggregates scan the whole revoke set, so they are shared between visitors for a while
+const statsCache = new Map<number, { stats: GlobalRevokeStats; fetchedAt: number }>();
+
+/**
+ * Chain-wide revoke statistics: every approve(spender, 0) and
+ * setApprovalForAll(operator, false) held by the approval index, plus in-app
+ * revokes whose transaction it has not picked up. The index only covers the
+ * chain when the RPC indexer runs (INDEXER_ENABLED=true); `coverage` tells how
+ * far its backfill got.
+ */
+export async function getGlobalStats(days: number): Promise<GlobalRevokeStats> {
+  const cached = statsCache.get(days);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.stats;
+
+  // Whole UTC days, today included
+  const today = Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS;
+  const since = today - (days - 1) * DAY_SECONDS;
+  const [totals, recorded, counts, checkpoint, headBlock] = await Promise.all([
+    storage.getGlobalRevokeTotals(),
+    storage.getRecordedRevokeTotals(),
+    storage.getDailyRevokeCounts(since),
+    storage.getScanCheckpoint(INDEXER_SCOPE),
+    getProvider().getBlockNumber().catch(error => {
+      console.warn('[Stats] Could not read the chain head:', error);
+      return null;
+    })
+  ]);
+
+  const byDate = new Map(counts.map(day => [day.date, day]));
+  const daily: GlobalRevokeStats['daily'] = [];
+  for (let day = since; day <= today; day += DAY_SECONDS) {
+    const date = new Date(day * 1000).toISOString().slice(0, 10);
+    daily.push(byDate.get(date) || { date, revokes: 0, wallets: 0 });
+  }
+
+  const stats: GlobalRevokeStats = {
+    totalRevokes: totals.totalRevokes,
+    uniqueWallets: totals.uniqueWallets,
+    totalValueSecured: recorded.totalValueSecured,
+    recordedRevokes: recorded.recordedRevokes,
+    daily,
+    coverage: checkpoint ? {
+      fromBlock: checkpoint.fromBlock,
+      throughBlock: checkpoint.lastBlock,
+      headBlock: headBlock ?? checkpoint.lastBlock,
+      complete: checkpoint.fromBlock === 0 && headBlock !== null && checkpoint.lastBlock >= headBlock - HEAD_LAG_BLOCKS
+    } : null
+  };
+  statsCache.set(days, { stats, fetchedAt: Date.now() });
+  return stats;
+}
@@ -1,6 +1,7 @@
-import { type User, type InsertUser, type RevokeStats, type InsertRevokeHistory, type RevokeHistory, users, revokeStats, revokeHistory } from "@shared/schema";
+import { type User, type InsertUser, type InsertRevokeHistory, type RevokeHistory, type InsertApprovalEvent, type ApprovalEvent, type ApprovalEventType, type ScanCheckpoint, type InsertPermit2Event, type Permit2Event, type InsertTransferEvent, type TransferEvent, type SpenderLabel, type InsertSpenderLabel, type TokenMetadata, type InsertTokenMetadata, type PriceOverride, type InsertPriceOverride, type LeaderboardEntry, type LeaderboardOptOut, type InsertReport, type Report, users, revokeHistory, approvals, scanCheckpoints, permit2Events, transferEvents, spenderLabels, tokenMetadata, priceOverrides, leaderboardOptOuts, reports } from "@shared/schema";
 import { db } from "./db";
-import { eq, sql } from "drizzle-orm";
+import { eq, and, asc, desc, gte, lt, lte, inArray, isNotNull, isNull, notExists, sql } from "drizzle-orm";
+import { unionAll } from "drizzle-orm/pg-core";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -8,9 +9,58 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   
   // Revoke stats methods
-  getRevokeStats(): Promise<{ totalRevokes: number; totalValueSecured: string }>;
-  recordRevoke(data: InsertRevokeHistory): Promise<RevokeHistory>;
+  getRecordedRevokeTotals(): Promise<{ recordedRevokes: number; totalValueSecured: string }>;
+  recordRevoke(data: InsertRevokeHistory): Promise<{ record: RevokeHistory; created: boolean }>;
+  getRevoke(txHash: string, tokenAddress: string, spenderAddress: string): Promise<RevokeHistory | undefined>;
+  markRevokeVerified(id: string, verifiedBlock: number, revokedAt: number): Promise<RevokeHistory>;
   getRecentRevokes(limit?: number): Promise<RevokeHistory[]>;
+  getRevokesByTxHashes(txHashes: string[]): Promise<RevokeHistory[]>;
+  getRevokesByWallet(walletAddress: string): Promise<RevokeHistory[]>;
+  getGlobalRevokeTotals(): Promise<{ totalRevokes: number; uniqueWallets: number }>;
+  getDailyRevokeCounts(since: number): Promise<{ date: string; revokes: number; wallets: number }[]>;
+
+  // Approval index methods
+  getScanCheckpoint(scope: string): Promise<ScanCheckpoint | undefined>;
+  setScanCheckpoint(scope: string, lastBlock: number, fromBlock?: number): Promise<void>;
+  saveApprovalEvents(events: InsertApprovalEvent[]): Promise<void>;
+  replaceApprovalEventsInRange(fromBlock: number, toBlock: number, events: InsertApprovalEvent[]): Promise<void>;
+  getApprovalEvents(ownerAddress: string, eventType?: ApprovalEventType): Promise<ApprovalEvent[]>;
+  getApprovalPairEvents(ownerAddress: string, tokenAddress: string, spenderAddress: string): Promise<ApprovalEvent[]>;
+  getUnresolvedRevokeTxHashes(limit: number): Promise<string[]>;
+  setRevokeSenders(senders: { txHash: string; from: string }[]): Promise<void>;
+  savePermit2Events(events: InsertPermit2Event[]): Promise<void>;
+  getPermit2Events(ownerAddress: string): Promise<Permit2Event[]>;
+  saveTransferEvents(events: InsertTransferEvent[]): Promise<void>;
+  getTransferEvents(ownerAddress: string, tokenAddresses: string[]): Promise<TransferEvent[]>;
+  setTransferTxParties(parties: { txHash: string; from: string; to: string | null }[]): Promise<void>;
+
+  // Spender label methods
+  getSpenderLabels(addresses?: string[]): Promise<SpenderLabel[]>;
+  getSpenderLabel(address: string): Promise<SpenderLabel | undefined>;
+  createSpenderLabel(label: InsertSpenderLabel): Promise<SpenderLabel>;
+  updateSpenderLabel(address: string, label: Partial<InsertSpenderLabel>): Promise<SpenderLabel | undefined>;
+  deleteSpenderLabel(address: string): Promise<boolean>;
+  upsertSpenderLabels(labels: InsertSpenderLabel[]): Promise<number>;
+
+  // Token registry methods
+  getTokenMetadata(addresses: string[]): Promise<TokenMetadata[]>;
+  saveOnchainTokenMetadata(tokens: InsertTokenMetadata[]): Promise<void>;
+  upsertTokenListMetadata(tokens: InsertTokenMetadata[]): Promise<number>;
+
+  // Price override methods
+  getPriceOverrides(addresses?: string[]): Promise<PriceOverride[]>;
+  upsertPriceOverride(override: InsertPriceOverride): Promise<PriceOverride>;
+  deletePriceOverride(address: string): Promise<boolean>;
+
+  // Leaderboard methods
+  getLeaderboard(since: number | null, orderBy: "revokes" | "value", limit: number): Promise<Omit<LeaderboardEntry, "rank">[]>;
+  getLeaderboardOptOut(address: string): Promise<LeaderboardOptOut | undefined>;
+  setLeaderboardOptOut(address: string, signature: string, signedAt: Date): Promise<void>;
+  deleteLeaderboardOptOut(address: string, signedAt: Date): Promise<boolean>;
+
+  // Report methods
+  createReport(report: InsertReport): Promise<Report>;
+  getReport(id: string): Promise<Report | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -29,46 +79,43 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getRevokeStats(): Promise<{ totalRevokes: number; totalValueSecured: string }> {
-    const [stats] = await db.select().from(revokeStats);
-    if (!stats) {
-      // Initialize stats if not exists
-      await db.insert(revokeStats).values({
-        totalRevokes: 0,
-        totalValueSecured: "0"
-      });
-      return { totalRevokes: 0, totalValueSecured: "0" };
-    }
-    return { 
-      totalRevokes: stats.totalRevokes, 
-      totalValueSecured: stats.totalValueSecured 
-    };
-  }
-
-  async recordRevoke(data: InsertRevokeHistory): Promise<RevokeHistory> {
-    // Insert the revoke record
-    const [record] = await db.insert(revokeHistory).values(data).returning();
-    
-    // Update global stats
-    const valueSecured = parseFloat(data.valueSecured || "0") || 0;
-    
-    const [existingStats] = await db.select().from(revokeStats);
-    
-    if (!existingStats) {
-      await db.insert(revokeStats).values({
-        totalRevokes: 1,
-        totalValueSecured: valueSecured.toFixed(2)
-      });
-    } else {
-      const newTotal = parseFloat(existingStats.totalValueSecured) + valueSecured;
-      await db.update(revokeStats)
-        .set({
-          totalRevokes: sql`${revokeStats.totalRevokes} + 1`,
-          totalValueSecured: newTotal.toFixed(2)
-        })
-        .where(eq(revokeStats.id, existingStats.id));
+  async getRecordedRevokeTotals(): Promise<{ recordedRevokes: number; totalValueSecured: string }> {
+    const [totals] = await db.select({
+      recordedRevokes: sql<number>`count(*)::int`,
+      totalValueSecured: sql<string>`coalesce(sum(${revokeHistory.valueSecured}), 0)::numeric(20, 2)::text`
+    })
+      .from(revokeHistory)
+      .where(isNotNull(revokeHistory.verifiedBlock));
+    return totals;
+  }
+
+  // A revoke already stored for the same (tx, token, spender) is returned as is, without counting it again
+  async recordRevoke(data: InsertRevokeHistory): Promise<{ record: RevokeHistory; created: boolean }> {
+    const [record] = await db.insert(revokeHistory).values(data).onConflictDoNothing().returning();
+    if (!record) {
+      const existing = data.txHash ? await this.getRevoke(data.txHash, data.tokenAddress, data.spenderAddress) : undefined;
+      if (!existing) throw new Error(`Revoke ${data.txHash} conflicted but could not be read back`);
+      return { record: existing, created: false };
     }
-    
+    return { record, created: true };
+  }
+
+  async getRevoke(txHash: string, tokenAddress: string, spenderAddress: string): Promise<RevokeHistory | undefined> {
+    const [record] = await db.select()
+      .from(revokeHistory)
+      .where(and(
+        eq(revokeHistory.txHash, txHash),
+        sql`lower(${revokeHistory.tokenAddress}) = ${tokenAddress.toLowerCase()}`,
+        sql`lower(${revokeHistory.spenderAddress}) = ${spenderAddress.toLowerCase()}`
+      ));
+    return record;
+  }
+
+  async markRevokeVerified(id: string, verifiedBlock: number, revokedAt: number): Promise<RevokeHistory> {
+    const [record] = await db.update(revokeHistory)
+      .set({ verifiedBlock, revokedAt })
+      .where(eq(revokeHistory.id, id))
+      .returning();
     return record;
   }
 
@@ -78,6 +125,383 @@ export class DatabaseStorage implements IStorage {
       .orderBy(sql`${revokeHistory.createdAt} DESC`)
       .limit(limit);
   }
+
+  async getRevokesByTxHashes(txHashes: string[]): Promise<RevokeHistory[]> {
+    if (txHashes.length === 0) return [];
+    return db.select()
+      .from(revokeHistory)
+      .where(inArray(revokeHistory.txHash, Array.from(new Set(txHashes))));
+  }
+
+  async getRevokesByWallet(walletAddress: string): Promise<RevokeHistory[]> {
+    return db.select()
+      .from(revokeHistory)
+      .where(and(
+        sql`lower(${revokeHistory.walletAddress}) = ${walletAddress.toLowerCase()}`,
+        isNotNull(revokeHistory.verifiedBlock)
+      ));
+  }
+
+  // Every known revoke as (wallet, unix timestamp of its block): revoke events in the approval index,
+  // plus verified revoke_history rows whose transaction is not indexed (yet).
+  private revokeEvents(since?: number) {
+    const indexed = db.select({ wallet: approvals.ownerAddress, timestamp: approvals.timestamp })
+      .from(approvals)
+      .where(and(
+        inArray(approvals.eventType, ["Approval", "ApprovalForAll"]),
+        eq(approvals.amount, "0"),
+        // Zero approvals the owner did not send are spenders using up their allowance
+        eq(approvals.txFrom, approvals.ownerAddress),
+        since === undefined ? undefined : gte(approvals.timestamp, since)
+      ));
+    const recorded = db.select({
+      wallet: sql<string>`lower(${revokeHistory.walletAddress})`.as("wallet"),
+      timestamp: sql<number>`${revokeHistory.revokedAt}`.as("timestamp")
+    })
+      .from(revokeHistory)
+      .where(and(
+        isNotNull(revokeHistory.verifiedBlock),
+        notExists(db.select({ txHash: approvals.txHash }).from(approvals).where(and(
+          eq(approvals.txHash, revokeHistory.txHash),
+          eq(approvals.amount, "0"),
+          eq(approvals.txFrom, approvals.ownerAddress)
+        ))),
+        since === undefined ? undefined : gte(revokeHistory.revokedAt, since)
+      ));
+    return unionAll(indexed, recorded).as("revoke_events");
+  }
+
+  async getGlobalRevokeTotals(): Promise<{ totalRevokes: number; uniqueWallets: number }> {
+    const events = this.revokeEvents();
+    const [totals] = await db.select({
+      totalRevokes: sql<number>`count(*)::int`,
+      uniqueWallets: sql<number>`count(distinct ${events.wallet})::int`
+    }).from(events);
+    return totals;
+  }
+
+  async getDailyRevokeCounts(since: number): Promise<{ date: string; revokes: number; wallets: number }[]> {
+    const events = this.revokeEvents(since);
+    const date = sql<string>`to_char(to_timestamp(${events.timestamp}) at time zone 'UTC', 'YYYY-MM-DD')`;
+    return db.select({
+      date,
+      revokes: sql<number>`count(*)::int`,
+      wallets: sql<number>`count(distinct ${events.wallet})::int`
+    })
+      .from(events)
+      .groupBy(date)
+      .orderBy(date);
+  }
+
+  async getScanCheckpoint(scope: string): Promise<ScanCheckpoint | undefined> {
+    const [checkpoint] = await db.select().from(scanCheckpoints).where(eq(scanCheckpoints.scope, scope));
+    return checkpoint;
+  }
+
+  async setScanCheckpoint(scope: string, lastBlock: number, fromBlock: number = 0): Promise<void> {
+    await db.insert(scanCheckpoints)
+      .values({ scope, fromBlock, lastBlock })
+      .onConflictDoUpdate({
+        target: scanCheckpoints.scope,
+        set: { lastBlock, updatedAt: new Date() }
+      });
+  }
+
+  async saveApprovalEvents(events: InsertApprovalEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    // The same log can be returned again when a scan overlaps the previous one
+    await db.insert(approvals).values(events).onConflictDoNothing();
+  }
+
+  async replaceApprovalEventsInRange(fromBlock: number, toBlock: number, events: InsertApprovalEvent[]): Promise<void> {
+    // Drops the stored logs of the range (possibly reorged out) and stores the fresh ones atomically
+    await db.transaction(async (tx) => {
+      await tx.delete(approvals).where(and(
+        gte(approvals.blockNumber, fromBlock),
+        lte(approvals.blockNumber, toBlock)
+      ));
+      if (events.length > 0) {
+        await tx.insert(approvals).values(events).onConflictDoNothing();
+      }
+    });
+  }
+
+  async getApprovalEvents(ownerAddress: string, eventType: ApprovalEventType = "Approval"): Promise<ApprovalEvent[]> {
+    return db.select()
+      .from(approvals)
+      .where(and(
+        eq(approvals.ownerAddress, ownerAddress.toLowerCase()),
+        eq(approvals.eventType, eventType)
+      ))
+      .orderBy(asc(approvals.blockNumber), asc(approvals.logIndex));
+  }
+
+  async getApprovalPairEvents(ownerAddress: string, tokenAddress: string, spenderAddress: string): Promise<ApprovalEvent[]> {
+    return db.select()
+      .from(approvals)
+      .where(and(
+        eq(approvals.ownerAddress, ownerAddress.toLowerCase()),
+        eq(approvals.tokenAddress, tokenAddress.toLowerCase()),
+        eq(approvals.spenderAddress, spenderAddress.toLowerCase()),
+        eq(approvals.eventType, "Approval")
+      ))
+      .orderBy(asc(approvals.blockNumber), asc(approvals.logIndex));
+  }
+
+  async getUnresolvedRevokeTxHashes(limit: number): Promise<string[]> {
+    const rows = await db.selectDistinct({ txHash: approvals.txHash })
+      .from(approvals)
+      .where(and(
+        inArray(approvals.eventType, ["Approval", "ApprovalForAll"]),
+        eq(approvals.amount, "0"),
+        isNull(approvals.txFrom)
+      ))
+      .limit(limit);
+    return rows.map(row => row.txHash);
+  }
+
+  async setRevokeSenders(senders: { txHash: string; from: string }[]): Promise<void> {
+    if (senders.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { txHash, from } of senders) {
+        await tx.update(approvals)
+          .set({ txFrom: from })
+          .where(and(eq(approvals.txHash, txHash), eq(approvals.amount, "0")));
+      }
+    });
+  }
+
+  async savePermit2Events(events: InsertPermit2Event[]): Promise<void> {
+    if (events.length === 0) return;
+    await db.insert(permit2Events).values(events).onConflictDoNothing();
+  }
+
+  async getPermit2Events(ownerAddress: string): Promise<Permit2Event[]> {
+    return db.select()
+      .from(permit2Events)
+      .where(eq(permit2Events.ownerAddress, ownerAddress.toLowerCase()))
+      .orderBy(asc(permit2Events.blockNumber), asc(permit2Events.logIndex));
+  }
+
+  async saveTransferEvents(events: InsertTransferEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await db.insert(transferEvents).values(events).onConflictDoNothing();
+  }
+
+  async getTransferEvents(ownerAddress: string, tokenAddresses: string[]): Promise<TransferEvent[]> {
+    if (tokenAddresses.length === 0) return [];
+    return db.select()
+      .from(transferEvents)
+      .where(and(
+        eq(transferEvents.ownerAddress, ownerAddress.toLowerCase()),
+        inArray(transferEvents.tokenAddress, tokenAddresses.map(a => a.toLowerCase()))
+      ))
+      .orderBy(asc(transferEvents.blockNumber), asc(transferEvents.logIndex));
+  }
+
+  async setTransferTxParties(parties: { txHash: string; from: string; to: string | null }[]): Promise<void> {
+    if (parties.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { txHash, from, to } of parties) {
+        await tx.update(transferEvents)
+          .set({ txFrom: from, txTo: to })
+          .where(eq(transferEvents.txHash, txHash));
+      }
+    });
+  }
+
+  async getSpenderLabels(addresses?: string[]): Promise<SpenderLabel[]> {
+    if (addresses) {
+      if (addresses.length === 0) return [];
+      return db.select()
+        .from(spenderLabels)
+        .where(inArray(spenderLabels.address, addresses.map(a => a.toLowerCase())));
+    }
+    return db.select().from(spenderLabels).orderBy(asc(spenderLabels.name));
+  }
+
+  async getSpenderLabel(address: string): Promise<SpenderLabel | undefined> {
+    const [label] = await db.select().from(spenderLabels).where(eq(spenderLabels.address, address.toLowerCase()));
+    return label;
+  }
+
+  async createSpenderLabel(label: InsertSpenderLabel): Promise<SpenderLabel> {
+    const [created] = await db.insert(spenderLabels)
+      .values({ ...label, address: label.address.toLowerCase() })
+      .returning();
+    return created;
+  }
+
+  async updateSpenderLabel(address: string, label: Partial<InsertSpenderLabel>): Promise<SpenderLabel | undefined> {
+    const { address: _ignored, ...changes } = label;
+    const [updated] = await db.update(spenderLabels)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(spenderLabels.address, address.toLowerCase()))
+      .returning();
+    return updated;
+  }
+
+  async deleteSpenderLabel(address: string): Promise<boolean> {
+    const deleted = await db.delete(spenderLabels)
+      .where(eq(spenderLabels.address, address.toLowerCase()))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async upsertSpenderLabels(labels: InsertSpenderLabel[]): Promise<number> {
+    if (labels.length === 0) return 0;
+    // Postgres rejects an upsert that touches the same row twice, so the last entry per address wins
+    const unique = new Map(labels.map(label => [label.address.toLowerCase(), { ...label, address: label.address.toLowerCase() }]));
+    await db.insert(spenderLabels)
+      .values(Array.from(unique.values()))
+      .onConflictDoUpdate({
+        target: spenderLabels.address,
+        set: {
+          name: sql`excluded.name`,
+          project: sql`excluded.project`,
+          category: sql`excluded.category`,
+          verified: sql`excluded.verified`,
+          updatedAt: new Date()
+        }
+      });
+    return unique.size;
+  }
+
+  async getTokenMetadata(addresses: string[]): Promise<TokenMetadata[]> {
+    if (addresses.length === 0) return [];
+    return db.select()
+      .from(tokenMetadata)
+      .where(inArray(tokenMetadata.address, addresses.map(a => a.toLowerCase())));
+  }
+
+  async saveOnchainTokenMetadata(tokens: InsertTokenMetadata[]): Promise<void> {
+    if (tokens.length === 0) return;
+    // Never replaces a row, so curated token-list values are kept
+    await db.insert(tokenMetadata)
+      .values(tokens.map(token => ({ ...token, address: token.address.toLowerCase(), source: "onchain" })))
+      .onConflictDoNothing();
+  }
+
+  async upsertTokenListMetadata(tokens: InsertTokenMetadata[]): Promise<number> {
+    if (tokens.length === 0) return 0;
+    const unique = new Map(tokens.map(token => [token.address.toLowerCase(), { ...token, address: token.address.toLowerCase(), source: "tokenlist" }]));
+    await db.insert(tokenMetadata)
+      .values(Array.from(unique.values()))
+      .onConflictDoUpdate({
+        target: tokenMetadata.address,
+        set: {
+          name: sql`excluded.name`,
+          symbol: sql`excluded.symbol`,
+          decimals: sql`excluded.decimals`,
+          logoUri: sql`excluded.logo_uri`,
+          source: sql`excluded.source`,
+          listName: sql`excluded.list_name`,
+          updatedAt: new Date()
+        }
+      });
+    return unique.size;
+  }
+
+  async getPriceOverrides(addresses?: string[]): Promise<PriceOverride[]> {
+    if (addresses) {
+      if (addresses.length === 0) return [];
+      return db.select()
+        .from(priceOverrides)
+        .where(inArray(priceOverrides.address, addresses.map(a => a.toLowerCase())));
+    }
+    return db.select().from(priceOverrides).orderBy(asc(priceOverrides.address));
+  }
+
+  async upsertPriceOverride(override: InsertPriceOverride): Promise<PriceOverride> {
+    const [saved] = await db.insert(priceOverrides)
+      .values({ ...override, address: override.address.toLowerCase() })
+      .onConflictDoUpdate({
+        target: priceOverrides.address,
+        set: { priceUsd: override.priceUsd, note: override.note ?? null, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deletePriceOverride(address: string): Promise<boolean> {
+    const deleted = await db.delete(priceOverrides)
+      .where(eq(priceOverrides.address, address.toLowerCase()))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Revokes come from the same event set as the global statistics; value secured is summed from
+  // verified revoke_history rows; both are dated by the revoke's block time. Opted-out wallets are left out.
+  async getLeaderboard(since: number | null, orderBy: "revokes" | "value", limit: number): Promise<Omit<LeaderboardEntry, "rank">[]> {
+    const events = this.revokeEvents(since ?? undefined);
+    const counts = db.select({
+      wallet: events.wallet,
+      revokes: sql<number>`count(*)::int`.as("revokes")
+    })
+      .from(events)
+      .groupBy(events.wallet)
+      .as("revoke_counts");
+    const wallet = sql<string>`lower(${revokeHistory.walletAddress})`;
+    const values = db.select({
+      wallet: wallet.as("wallet"),
+      valueSecured: sql<string>`sum(${revokeHistory.valueSecured})`.as("value_secured")
+    })
+      .from(revokeHistory)
+      .where(and(
+        isNotNull(revokeHistory.verifiedBlock),
+        since === null ? undefined : gte(revokeHistory.revokedAt, since)
+      ))
+      .groupBy(wallet)
+      .as("revoke_values");
+
+    const walletAddress = sql<string>`coalesce(${counts.wallet}, ${values.wallet})`;
+    const revokes = sql<number>`coalesce(${counts.revokes}, 0)`;
+    const valueSecured = sql<string>`coalesce(${values.valueSecured}, 0)`;
+    const [primary, secondary] = orderBy === "value" ? [valueSecured, revokes] : [revokes, valueSecured];
+    return db.select({
+      walletAddress,
+      revokes: sql<number>`${revokes}::int`,
+      valueSecured: sql<string>`${valueSecured}::numeric(20, 2)::text`
+    })
+      .from(counts)
+      .fullJoin(values, eq(counts.wallet, values.wallet))
+      .where(notExists(db.select({ address: leaderboardOptOuts.address }).from(leaderboardOptOuts).where(eq(leaderboardOptOuts.address, walletAddress))))
+      .orderBy(desc(primary), desc(secondary), asc(walletAddress))
+      .limit(limit);
+  }
+
+  async getLeaderboardOptOut(address: string): Promise<LeaderboardOptOut | undefined> {
+    const [optOut] = await db.select().from(leaderboardOptOuts).where(eq(leaderboardOptOuts.address, address.toLowerCase()));
+    return optOut;
+  }
+
+  // Only a signature newer than the stored decision replaces it, so an old opt-out cannot be replayed
+  async setLeaderboardOptOut(address: string, signature: string, signedAt: Date): Promise<void> {
+    await db.insert(leaderboardOptOuts)
+      .values({ address: address.toLowerCase(), signature, signedAt })
+      .onConflictDoUpdate({
+        target: leaderboardOptOuts.address,
+        set: { signature, signedAt, createdAt: new Date() },
+        setWhere: lt(leaderboardOptOuts.signedAt, signedAt)
+      });
+  }
+
+  async deleteLeaderboardOptOut(address: string, signedAt: Date): Promise<boolean> {
+    const deleted = await db.delete(leaderboardOptOuts)
+      .where(and(eq(leaderboardOptOuts.address, address.toLowerCase()), lt(leaderboardOptOuts.signedAt, signedAt)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async createReport(report: InsertReport): Promise<Report> {
+    const [saved] = await db.insert(reports).values(report).returning();
+    return saved;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    return report;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,147 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { InsertTokenMetadata } from '@shared/schema';
+import { multicall, resultOr } from '@shared/multicall';
+import { storage } from './storage';
+import { ARC_CHAIN_ID, getProvider } from './chain';
+
+// Directory of Uniswap-format token list files ingested at startup
+const TOKEN_LISTS_DIR = process.env.TOKEN_LISTS_DIR || path.resolve(process.cwd(), 'token-lists');
+
+const ERC20_METADATA = new ethers.Interface([
+  'function symbol() view returns (string)',
+  'function name() view returns (string)',
+  'function decimals() view returns (uint8)'
+]);
+
+// https://github.com/Uniswap/token-lists - only the fields the registry uses are checked
+export const tokenListSchema = z.object({
+  name: z.string().min(1),
+  tokens: z.array(z.object({
+    chainId: z.number().int(),
+    address: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+    name: z.string().min(1),
+    symbol: z.string().min(1),
+    decimals: z.number().int().min(0).max(255),
+    logoURI: z.string().optional()
+  }))
+});
+
+export type TokenList = z.infer<typeof tokenListSchema>;
+
+export interface TokenInfo {
+  symbol: string;
+  name: string;
+  decimals: number | null;
+  logoUri: string | null;
+}
+
+// Process-level layer over the token_metadata table; it also remembers contracts without metadata
+const tokenInfoCache = new Map<string, TokenInfo>();
+
+/**
+ * Resolves metadata for many tokens: from memory, then the token registry, then
+ * one batched Multicall3 read for tokens never seen before (which are stored).
+ * Contracts that expose neither symbol nor name fall back to 'TOKEN' / 'Unknown Token'.
+ */
+export async function getTokenInfos(tokenAddresses: string[]): Promise<Map<string, TokenInfo>> {
+  const infos = new Map<string, TokenInfo>();
+  let missing: string[] = [];
+  for (const address of Array.from(new Set(tokenAddresses.map(a => a.toLowerCase())))) {
+    const cached = tokenInfoCache.get(address);
+    if (cached) infos.set(address, cached);
+    else missing.push(address);
+  }
+  if (missing.length === 0) return infos;
+
+  try {
+    for (const row of await storage.getTokenMetadata(missing)) {
+      const info = { symbol: row.symbol, name: row.name, decimals: row.decimals, logoUri: row.logoUri };
+      tokenInfoCache.set(row.address, info);
+      infos.set(row.address, info);
+    }
+    missing = missing.filter(address => !infos.has(address));
+  } catch (e) {
+    console.error('[Tokens] Token registry lookup failed, reading from chain:', e);
+  }
+  if (missing.length === 0) return infos;
+
+  const results = await multicall(getProvider(), missing.flatMap(target => [
+    { target, iface: ERC20_METADATA, method: 'symbol' },
+    { target, iface: ERC20_METADATA, method: 'name' },
+    { target, iface: ERC20_METADATA, method: 'decimals' }
+  ]));
+
+  const discovered: InsertTokenMetadata[] = [];
+  missing.forEach((address, i) => {
+    const symbol = resultOr<string>(results[i * 3], '');
+    const name = resultOr<string>(results[i * 3 + 1], '');
+    const decimalsResult = results[i * 3 + 2];
+    const decimals = decimalsResult.success ? Number(decimalsResult.value) : null;
+    const info = { symbol: symbol || 'TOKEN', name: name || 'Unknown Token', decimals, logoUri: null };
+    tokenInfoCache.set(address, info);
+    infos.set(address, info);
+    // Placeholder names are not worth persisting; the contract may not be a token at all
+    if (symbol || name) discovered.push({ address, ...info, source: 'onchain' });
+  });
+
+  try {
+    await storage.saveOnchainTokenMetadata(discovered);
+  } catch (e) {
+    console.error('[Tokens] Could not store token metadata:', e);
+  }
+  return infos;
+}
+
+export async function getTokenInfo(tokenAddress: string): Promise<TokenInfo> {
+  const infos = await getTokenInfos([tokenAddress]);
+  return infos.get(tokenAddress.toLowerCase())!;
+}
+
+/**
+ * Stores the Arc entries of a token list, overriding on-chain metadata.
+ * Throws a ZodError when the list is malformed. Resolves to the number of
+ * tokens stored.
+ */
+export async function ingestTokenList(data: unknown): Promise<number> {
+  const list = tokenListSchema.parse(data);
+  const tokens = list.tokens
+    .filter(token => token.chainId === ARC_CHAIN_ID)
+    .map((token): InsertTokenMetadata => ({
+      address: token.address.toLowerCase(),
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      logoUri: token.logoURI || null,
+      source: 'tokenlist',
+      listName: list.name
+    }));
+
+  const stored = await storage.upsertTokenListMetadata(tokens);
+  for (const token of tokens) {
+    tokenInfoCache.delete(token.address);
+  }
+  console.log(`[Tokens] Ingested ${stored} token(s) from list "${list.name}"`);
+  return stored;
+}
+
+// Ingests every *.json token list in TOKEN_LISTS_DIR; a missing directory is not an error
+export async function loadTokenListFiles(): Promise<void> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(TOKEN_LISTS_DIR)).filter(file => file.endsWith('.json')).sort();
+  } catch (e: any) {
+    if (e.code !== 'ENOENT') console.error(`[Tokens] Cannot read token list directory ${TOKEN_LISTS_DIR}:`, e);
+    return;
+  }
+
+  for (const file of files) {
+    try {
+      await ingestTokenList(JSON.parse(await fs.readFile(path.join(TOKEN_LISTS_DIR, file), 'utf8')));
+    } catch (e) {
+      console.error(`[Tokens] Token list ${file} could not be ingested:`, e);
+    }
+  }
+}
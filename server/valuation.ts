@@ -0,0 +1,128 @@
+import { ethers } from 'ethers';
+import type { RevokeValuation } from '@shared/schema';
+import { effectiveExposure, toUsd } from '@shared/allowance';
+import { PERMIT2_ADDRESS } from '@shared/contracts';
+import { multicall } from '@shared/multicall';
+import { storage } from './storage';
+import { PERMIT2_LOCKDOWN_TOPIC, getProvider, isRevokeEvent, parseApprovalLog, toOwnerTopic } from './chain';
+import { getTokenInfo } from './tokens';
+import { getTokenPrices } from './prices';
+
+const ERC20_STATE = new ethers.Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)'
+]);
+
+const NOT_VALUED: RevokeValuation = {
+  valueSecured: '0.00',
+  revokeBlock: null,
+  revokedAmount: null,
+  balanceAtRevoke: null,
+  balanceBlock: null,
+  tokenDecimals: null,
+  priceUsd: null,
+  priceSource: null
+};
+
+// Allowance the revoke removed, read from the state just before its block or, on nodes without that state, from the last indexed Approval event
+async function readRevokedAmount(walletAddress: string, tokenAddress: string, spenderAddress: string, blockBefore: number, onchain: bigint | undefined): Promise<bigint | null> {
+  if (onchain !== undefined) return onchain;
+  const events = await storage.getApprovalPairEvents(walletAddress, tokenAddress, spenderAddress);
+  const previous = events.filter(e => e.blockNumber <= blockBefore).pop();
+  return previous ? BigInt(previous.amount) : null;
+}
+
+/**
+ * Values an ERC-20 revoke at the block it happened: the allowance it removed,
+ * capped by the owner's balance just before, times the token price at that
+ * block. Transactions that removed no ERC-20 allowance of the pair (NFT revokes,
+ * unknown or failed transactions) are worth nothing.
+ */
+export async function valueRevoke(walletAddress: string, tokenAddress: string, spenderAddress: string, txHash: string): Promise<RevokeValuation> {
+  const owner = walletAddress.toLowerCase();
+  const token = tokenAddress.toLowerCase();
+  const spender = spenderAddress.toLowerCase();
+
+  const receipt = await getProvider().getTransactionReceipt(txHash);
+  if (!receipt || receipt.status !== 1) return NOT_VALUED;
+  const revoked = receipt.logs.some(log => {
+    const parsed = parseApprovalLog(log.address, log.topics, log.data);
+    return parsed?.eventType === 'Approval' && parsed.tokenAddress === token && parsed.ownerAddress === owner &&
+      parsed.spenderAddress === spender && parsed.amount === '0';
+  });
+  if (!revoked) return NOT_VALUED;
+
+  const blockBefore = receipt.blockNumber - 1;
+  const [[allowanceState, balanceState], info, prices] = await Promise.all([
+    multicall(getProvider(), [
+      { target: token, iface: ERC20_STATE, method: 'allowance', args: [owner, spender] },
+      { target: token, iface: ERC20_STATE, method: 'balanceOf', args: [owner] }
+    ], { blockTag: blockBefore }),
+    getTokenInfo(token),
+    getTokenPrices([token], blockBefore)
+  ]);
+
+  const revokedAmount = await readRevokedAmount(owner, token, spender, blockBefore, allowanceState.success ? allowanceState.value as bigint : undefined);
+  let balance = balanceState.success ? balanceState.value as bigint : null;
+  let balanceBlock = blockBefore;
+  if (balance === null) {
+    const [latest, current] = await Promise.all([
+      getProvider().getBlockNumber(),
+      multicall(getProvider(), [{ target: token, iface: ERC20_STATE, method: 'balanceOf', args: [owner] }])
+    ]);
+    balance = current[0].success ? current[0].value as bigint : null;
+    balanceBlock = latest;
+  }
+
+  const price = prices.get(token);
+  const valuation: RevokeValuation = {
+    ...NOT_VALUED,
+    revokeBlock: receipt.blockNumber,
+    revokedAmount: revokedAmount?.toString() ?? null,
+    balanceAtRevoke: balance?.toString() ?? null,
+    balanceBlock: balance === null ? null : balanceBlock,
+    tokenDecimals: info.decimals,
+    priceUsd: price ? price.priceUsd.toFixed(18) : null,
+    priceSource: price?.source ?? null
+  };
+  if (revokedAmount === null || balance === null || info.decimals === null || !price) return valuation;
+
+  const value = toUsd(effectiveExposure(revokedAmount, balance), info.decimals, price.priceUsd);
+  return { ...valuation, valueSecured: value.toFixed(2) };
+}
+
+// A zero Approval or ApprovalForAll(false) of the pair emitted by the token, or a Permit2 lockdown of the pair
+function revokesPair(logs: readonly ethers.Log[], owner: string, token: string, spender: string): boolean {
+  return logs.some(log => {
+    try {
+      if (log.address.toLowerCase() === PERMIT2_ADDRESS.toLowerCase() && log.topics[0] === PERMIT2_LOCKDOWN_TOPIC) {
+        if (log.topics[1]?.toLowerCase() !== toOwnerTopic(owner)) return false;
+        const [lockedToken, lockedSpender] = ethers.AbiCoder.defaultAbiCoder().decode(['address', 'address'], log.data);
+        return lockedToken.toLowerCase() === token && lockedSpender.toLowerCase() === spender;
+      }
+      const parsed = parseApprovalLog(log.address, log.topics, log.data);
+      return !!parsed && isRevokeEvent(parsed) && parsed.tokenAddress === token && parsed.ownerAddress === owner && parsed.spenderAddress === spender;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Confirms that `txHash` is a mined, successful transaction sent by the wallet
+ * that revoked the token/spender pair, so revokes cannot be recorded on behalf
+ * of other wallets or for pairs the transaction never touched. Resolves to the
+ * block it was mined in and that block's time, or to the reason it was rejected.
+ */
+export async function verifyRevokeTransaction(walletAddress: string, tokenAddress: string, spenderAddress: string, txHash: string): Promise<{ blockNumber: number; timestamp: number } | { error: string }> {
+  const owner = walletAddress.toLowerCase();
+  const receipt = await getProvider().getTransactionReceipt(txHash);
+  if (!receipt) return { error: 'Transaction not found or not mined yet' };
+  if (receipt.status !== 1) return { error: 'Transaction failed' };
+  if (receipt.from.toLowerCase() !== owner) return { error: 'Transaction was not sent by this wallet' };
+  if (!revokesPair(receipt.logs, owner, tokenAddress.toLowerCase(), spenderAddress.toLowerCase())) {
+    return { error: 'Transaction did not revoke this token and spender' };
+  }
+  const block = await receipt.getBlock();
+  return { blockNumber: receipt.blockNumber, timestamp: block.timestamp };
+}
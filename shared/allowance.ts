@@ -0,0 +1,103 @@
+import type { AllowanceClass, DetectedApproval } from './schema';
+
+// Amounts travel as decimal strings of raw base units; everything here stays in bigint so
+// 18+ decimal tokens and max-uint allowances keep full precision.
+
+// Micro-dollars: USD values are computed in integer millionths before turning into a number
+const USD_PLACES = 6;
+// Prices are turned into integers with this many decimals before multiplying
+const PRICE_PLACES = 12;
+
+export function pow10(exponent: number): bigint {
+  return BigInt(`1${'0'.repeat(exponent)}`);
+}
+
+/**
+ * True for allowances in the top half of the integer range (2^255 and up for
+ * uint256, 2^159 and up for Permit2's uint160), which covers max uint and the
+ * other "infinite" sentinels wallets use.
+ */
+export function isUnlimitedAmount(amount: bigint, bits: number = 256): boolean {
+  return amount >= BigInt(1) << BigInt(bits - 1);
+}
+
+/**
+ * Unlimited beats everything; an allowance above the token's total supply can
+ * never run out either; one above the current balance can drain it completely.
+ * Unknown supply or balance (a reverted read) is skipped.
+ */
+export function classifyAllowance(amount: bigint, balance?: bigint, totalSupply?: bigint, bits: number = 256): AllowanceClass {
+  if (isUnlimitedAmount(amount, bits)) return 'unlimited';
+  if (totalSupply !== undefined && amount > totalSupply) return 'exceeds-supply';
+  if (balance !== undefined && amount > balance) return 'exceeds-balance';
+  return 'bounded';
+}
+
+// USD value of a raw token amount, exact to the micro-dollar
+export function toUsd(amount: bigint, decimals: number, priceUsd: number): number {
+  const price = BigInt(Math.round(priceUsd * Math.pow(10, PRICE_PLACES)));
+  const micros = amount * price / pow10(decimals + PRICE_PLACES - USD_PLACES);
+  return Number(micros) / Math.pow(10, USD_PLACES);
+}
+
+// Truncated fixed-point rendering of amount / unit
+function toFixed(amount: bigint, unit: bigint, places: number): string {
+  const digits = (amount * pow10(places) / unit).toString().padStart(places + 1, '0');
+  return places === 0 ? digits : `${digits.slice(0, -places)}.${digits.slice(-places)}`;
+}
+
+// Compact display of a raw amount: 0.1234, 12.34, 12.34K, 12.34M, 12.34B
+export function formatTokenAmount(raw: string | bigint, decimals: number): string {
+  const amount = BigInt(raw);
+  const unit = pow10(decimals);
+  if (amount === BigInt(0)) return '0';
+  if (amount * BigInt(10000) < unit) return '<0.0001';
+  if (amount < unit) return toFixed(amount, unit, 4);
+  if (amount < unit * BigInt(1000)) return toFixed(amount, unit, 2);
+  if (amount < unit * pow10(6)) return `${toFixed(amount, unit * BigInt(1000), 2)}K`;
+  if (amount < unit * pow10(9)) return `${toFixed(amount, unit * pow10(6), 2)}M`;
+  return `${toFixed(amount, unit * pow10(9), 2)}B`;
+}
+
+// What a spender can actually take right now: never more than the wallet holds
+export function effectiveExposure(allowance: bigint, balance: bigint): bigint {
+  return allowance < balance ? allowance : balance;
+}
+
+export interface WalletExposure {
+  // Sum of allowance x price; Infinity when a priced token has an unlimited allowance
+  worstCaseUsd: number;
+  // Per token min(balance, sum of allowances) x price, so one balance is counted once however many spenders share it
+  effectiveUsd: number;
+}
+
+/**
+ * Totals the exposure of a wallet's ERC-20 approvals. Unpriced tokens are left
+ * out of both totals; tokens whose balance could not be read are left out of
+ * the effective one.
+ */
+export function walletExposure(approvals: Pick<DetectedApproval, 'tokenAddress' | 'decimals' | 'allowance' | 'balance' | 'price'>[]): WalletExposure {
+  const byToken = new Map<string, { decimals: number; balance?: bigint; priceUsd: number; allowances: bigint }>();
+  let worstCaseUsd = 0;
+  for (const approval of approvals) {
+    if (!approval.price) continue;
+    const allowance = BigInt(approval.allowance);
+    worstCaseUsd += isUnlimitedAmount(allowance) ? Infinity : toUsd(allowance, approval.decimals, approval.price.priceUsd);
+
+    const token = byToken.get(approval.tokenAddress) || {
+      decimals: approval.decimals,
+      balance: approval.balance === undefined ? undefined : BigInt(approval.balance),
+      priceUsd: approval.price.priceUsd,
+      allowances: BigInt(0)
+    };
+    token.allowances += allowance;
+    byToken.set(approval.tokenAddress, token);
+  }
+
+  let effectiveUsd = 0;
+  byToken.forEach(token => {
+    if (token.balance === undefined) return;
+    effectiveUsd += toUsd(effectiveExposure(token.allowances, token.balance), token.decimals, token.priceUsd);
+  });
+  return { worstCaseUsd, effectiveUsd };
+}
@@ -0,0 +1,5 @@
+// Canonical Uniswap Permit2 deployment (same address on every chain it is deployed to)
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+// Multicall3 is deployed at this address on most EVM chains; callers fall back to single calls when it is missing
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
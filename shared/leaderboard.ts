@@ -0,0 +1,21 @@
+import type { LeaderboardWindow } from './schema';
+
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, { label: string; days: number | null }> = {
+  '7d': { label: '7 days', days: 7 },
+  '30d': { label: '30 days', days: 30 },
+  all: { label: 'All time', days: null },
+};
+
+/**
+ * Text a wallet signs (personal_sign) to leave or rejoin the leaderboard. The
+ * server rebuilds it from the request fields, so the wording must not change
+ * without updating both sides.
+ */
+export function leaderboardConsentMessage(address: string, optOut: boolean, issuedAt: string): string {
+  return [
+    optOut ? 'Hide my wallet from the ArcRevoke leaderboard.' : 'Show my wallet on the ArcRevoke leaderboard.',
+    '',
+    `Wallet: ${address.toLowerCase()}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
@@ -0,0 +1,104 @@
+import { Contract, Interface, type Provider } from 'ethers';
+import { MULTICALL3_ADDRESS } from './contracts';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+];
+
+const DEFAULT_CHUNK_SIZE = 100;
+
+export interface ContractCall {
+  target: string;
+  iface: Interface;
+  method: string;
+  args?: readonly unknown[];
+}
+
+export type CallResult<T = unknown> =
+  | { success: true; value: T }
+  | { success: false };
+
+const deployments = new WeakMap<Provider, Promise<boolean>>();
+
+// A failed lookup answers false for this read only and is dropped, so the next read asks the node again
+function isMulticallDeployed(provider: Provider): Promise<boolean> {
+  let deployed = deployments.get(provider);
+  if (!deployed) {
+    const lookup = provider.getCode(MULTICALL3_ADDRESS).then(code => code !== '0x');
+    lookup.catch(() => {
+      if (deployments.get(provider) === lookup) deployments.delete(provider);
+    });
+    deployments.set(provider, lookup);
+    deployed = lookup;
+  }
+  return deployed.catch(() => false);
+}
+
+// Single-output functions resolve to the value itself, others to the full ethers Result
+function decodeResult(call: ContractCall, data: string): CallResult {
+  try {
+    const result = call.iface.decodeFunctionResult(call.method, data);
+    return { success: true, value: result.length === 1 ? result[0] : result };
+  } catch {
+    return { success: false };
+  }
+}
+
+async function callIndividually(provider: Provider, calls: ContractCall[], blockTag?: number): Promise<CallResult[]> {
+  return Promise.all(calls.map(async (call) => {
+    try {
+      const data = await provider.call({ to: call.target, data: call.iface.encodeFunctionData(call.method, call.args || []), blockTag });
+      return decodeResult(call, data);
+    } catch {
+      return { success: false } as const;
+    }
+  }));
+}
+
+/**
+ * Executes read-only calls through Multicall3 aggregate3, in chunks of
+ * `chunkSize`. A failing call only fails its own entry. Chunks fall back to
+ * individual eth_calls when Multicall3 is not deployed or the batch reverts.
+ * `blockTag` reads historical state, which needs a node that keeps it.
+ */
+export async function multicall(
+  provider: Provider,
+  calls: ContractCall[],
+  options: { chunkSize?: number; blockTag?: number } = {}
+): Promise<CallResult[]> {
+  if (calls.length === 0) return [];
+  const { blockTag } = options;
+  if (!(await isMulticallDeployed(provider))) {
+    return callIndividually(provider, calls, blockTag);
+  }
+
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const multicall3 = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const chunks: ContractCall[][] = [];
+  for (let i = 0; i < calls.length; i += chunkSize) {
+    chunks.push(calls.slice(i, i + chunkSize));
+  }
+
+  const results = await Promise.all(chunks.map(async (chunk): Promise<CallResult[]> => {
+    try {
+      const returnData: { success: boolean; returnData: string }[] = await multicall3.aggregate3.staticCall(
+        chunk.map(call => ({
+          target: call.target,
+          allowFailure: true,
+          callData: call.iface.encodeFunctionData(call.method, call.args || [])
+        })),
+        { blockTag }
+      );
+      return returnData.map((entry, i) => entry.success ? decodeResult(chunk[i], entry.returnData) : { success: false });
+    } catch {
+      return callIndividually(provider, chunk, blockTag);
+    }
+  }));
+
+  return results.flat();
+}
+
+// Unwraps a result, using the fallback for failed calls
+export function resultOr<T>(result: CallResult | undefined, fallback: T): T {
+  return result && result.success ? result.value as T : fallback;
+}
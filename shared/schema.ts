@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, unique, index, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,7 +17,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
-// Revoke statistics - persistent counter for all revokes across wallets
+// Legacy running totals, no longer updated: revoke totals are summed from revoke_history instead
 export const revokeStats = pgTable("revoke_stats", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   totalRevokes: integer("total_revokes").notNull().default(0),
@@ -32,8 +32,29 @@ export const revokeHistory = pgTable("revoke_history", {
   spenderAddress: text("spender_address").notNull(),
   valueSecured: decimal("value_secured", { precision: 20, scale: 2 }).notNull().default("0"),
   txHash: text("tx_hash"),
+  // How valueSecured was derived (server/valuation.ts): min(revokedAmount, balanceAtRevoke) x priceUsd.
+  // All null when the transaction removed no ERC-20 allowance (NFT revokes, unknown tx).
+  revokeBlock: integer("revoke_block"),
+  revokedAmount: text("revoked_amount"),
+  balanceAtRevoke: text("balance_at_revoke"),
+  // Block the balance was read at; the latest block when the node had no state for the revoke block
+  balanceBlock: integer("balance_block"),
+  tokenDecimals: integer("token_decimals"),
+  priceUsd: decimal("price_usd", { precision: 38, scale: 18 }),
+  priceSource: text("price_source"),
+  // Block of the revoke transaction once it is known to be a successful transaction sent by the wallet:
+  // the receipt checked by POST /api/revoke, or the indexed revoke event. Rows without it are not counted.
+  verifiedBlock: integer("verified_block"),
+  // Unix time of verifiedBlock; revokes are dated by it, not by when the row was written
+  revokedAt: integer("revoked_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("revoke_history_wallet_idx").on(sql`lower(${table.walletAddress})`),
+  index("revoke_history_tx_idx").on(table.txHash),
+  // One row per revoked allowance, however many times the transaction is posted or valued
+  // (older databases need script/dedupe-revokes.ts run once before db:push adds it)
+  uniqueIndex("revoke_history_revoke_unique").on(table.txHash, sql`lower(${table.tokenAddress})`, sql`lower(${table.spenderAddress})`),
+]);
 
 export const insertRevokeHistorySchema = createInsertSchema(revokeHistory).omit({
   id: true,
@@ -42,4 +63,435 @@ export const insertRevokeHistorySchema = createInsertSchema(revokeHistory).omit(
 
 export type InsertRevokeHistory = z.infer<typeof insertRevokeHistorySchema>;
 export type RevokeHistory = typeof revokeHistory.$inferSelect;
+export type RevokeValuation = Pick<InsertRevokeHistory, "valueSecured" | "revokeBlock" | "revokedAmount" | "balanceAtRevoke" | "balanceBlock" | "tokenDecimals" | "priceUsd" | "priceSource">;
+
+// Chain-wide revoke statistics as returned by GET /api/stats without a wallet
+export interface GlobalRevokeStats {
+  // approve(spender, 0) and setApprovalForAll(operator, false) sent by the owner, from the approval index, plus in-app revokes it does not hold yet
+  totalRevokes: number;
+  uniqueWallets: number;
+  // Value secured summed over the revokes recorded in revoke_history (in-app or valued on a wallet lookup)
+  totalValueSecured: string;
+  recordedRevokes: number;
+  // One entry per UTC day, oldest first, days without revokes included
+  daily: { date: string; revokes: number; wallets: number }[];
+  // Block range the chain-wide index covers; null when the RPC indexer has never run
+  coverage: { fromBlock: number; throughBlock: number; headBlock: number; complete: boolean } | null;
+}
+
+// Revoke statistics of one wallet as returned by GET /api/stats?wallet=
+export interface WalletRevokeStats {
+  totalRevokes: number;
+  totalValueSecured: string;
+  // ERC-20 revokes counted as $0 because the token had no price or the balance could not be read
+  unpricedRevokes: number;
+  // Found on-chain but not valued yet; later requests value them
+  pendingRevokes: number;
+  // Largest contributions to totalValueSecured, with the columns they were derived from
+  topRevokes: RevokeHistory[];
+}
 export type RevokeStats = typeof revokeStats.$inferSelect;
+
+// One revoke of a wallet as returned by GET /api/revokes
+export interface WalletRevoke {
+  id: string;
+  // Event the revoke emitted; null for revokes only recorded in-app (Permit2 lockdowns)
+  eventType: ApprovalEventType | null;
+  tokenAddress: string;
+  tokenSymbol: string;
+  spenderAddress: string;
+  spenderLabel?: SpenderLabelInfo | null;
+  txHash: string | null;
+  blockNumber: number | null;
+  timestamp: number;
+  // Null until the revoke has been valued
+  valueSecured: string | null;
+  valuation: RevokeHistory | null;
+}
+
+export interface WalletRevokePage {
+  items: WalletRevoke[];
+  total: number;
+  // Pass as ?cursor= for the next page; null on the last one
+  nextCursor: string | null;
+}
+
+// Indexed Approval / ApprovalForAll events, one row per log, so repeat scans only fetch new blocks.
+// For ApprovalForAll the spender is the operator; for ERC721Approval it is the approved address of
+// tokenId. Both store "1" (approved) or "0" (revoked) as the amount.
+export const approvals = pgTable("approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventType: text("event_type").notNull().default("Approval"),
+  ownerAddress: text("owner_address").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  spenderAddress: text("spender_address").notNull(),
+  amount: text("amount").notNull(),
+  tokenId: text("token_id"),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash"),
+  logIndex: integer("log_index").notNull(),
+  txHash: text("tx_hash").notNull(),
+  timestamp: integer("timestamp").notNull().default(0),
+  // Sender of the transaction, read for revoke events only (see isRevokeEvent); null until read.
+  // A revoke counts for the owner only when the owner sent it.
+  txFrom: text("tx_from"),
+}, (table) => [
+  unique("approvals_tx_log_unique").on(table.txHash, table.logIndex),
+  index("approvals_owner_idx").on(table.ownerAddress),
+  index("approvals_block_idx").on(table.blockNumber),
+  index("approvals_revoke_idx").on(table.eventType, table.amount),
+]);
+
+// Permit2 Approval / Permit events of a wallet, one row per log; both index (owner, token, spender).
+// Stored per wallet behind a "<wallet>:permit2" scan checkpoint.
+export const permit2Events = pgTable("permit2_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerAddress: text("owner_address").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  spenderAddress: text("spender_address").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  logIndex: integer("log_index").notNull(),
+  txHash: text("tx_hash").notNull(),
+  timestamp: integer("timestamp").notNull().default(0),
+}, (table) => [
+  unique("permit2_events_tx_log_unique").on(table.txHash, table.logIndex),
+  index("permit2_events_owner_idx").on(table.ownerAddress),
+]);
+
+export type InsertPermit2Event = typeof permit2Events.$inferInsert;
+export type Permit2Event = typeof permit2Events.$inferSelect;
+
+// Outgoing ERC-20 Transfer events of a wallet, stored per wallet behind a "<wallet>:transfer" scan
+// checkpoint and used to attribute pulls to approved spenders. txFrom / txTo are the sender and target
+// of the transaction; txFrom stays null until the transaction has been read (txTo is also null for
+// contract creations).
+export const transferEvents = pgTable("transfer_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerAddress: text("owner_address").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  recipientAddress: text("recipient_address").notNull(),
+  amount: text("amount").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  logIndex: integer("log_index").notNull(),
+  txHash: text("tx_hash").notNull(),
+  timestamp: integer("timestamp").notNull().default(0),
+  txFrom: text("tx_from"),
+  txTo: text("tx_to"),
+}, (table) => [
+  unique("transfer_events_tx_log_unique").on(table.txHash, table.logIndex),
+  index("transfer_events_owner_idx").on(table.ownerAddress, table.tokenAddress),
+]);
+
+export type InsertTransferEvent = typeof transferEvents.$inferInsert;
+export type TransferEvent = typeof transferEvents.$inferSelect;
+
+// Block range [fromBlock, lastBlock] whose logs are fully stored in `approvals` (or `permit2_events`, `transfer_events`) for a scope
+// (a wallet address, or the chain-wide RPC indexer)
+export const scanCheckpoints = pgTable("scan_checkpoints", {
+  scope: text("scope").primaryKey(),
+  fromBlock: integer("from_block").notNull().default(0),
+  lastBlock: integer("last_block").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertApprovalEventSchema = createInsertSchema(approvals).omit({
+  id: true,
+});
+
+export type InsertApprovalEvent = z.infer<typeof insertApprovalEventSchema>;
+export type ApprovalEvent = typeof approvals.$inferSelect;
+export type ScanCheckpoint = typeof scanCheckpoints.$inferSelect;
+export type ApprovalEventType = "Approval" | "ApprovalForAll" | "ERC721Approval";
+
+export const SPENDER_LABEL_CATEGORIES = ["dex", "aggregator", "bridge", "lending", "nft-marketplace", "staking", "wallet", "drainer", "other"] as const;
+
+// Human-readable names for spender / operator addresses, maintained through /api/labels
+export const spenderLabels = pgTable("spender_labels", {
+  // Stored lowercased
+  address: text("address").primaryKey(),
+  name: text("name").notNull(),
+  project: text("project"),
+  category: text("category").notNull().default("other"),
+  // Set once the address has been confirmed against the project's own documentation
+  verified: boolean("verified").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSpenderLabelSchema = createInsertSchema(spenderLabels, {
+  address: (schema) => schema.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  name: (schema) => schema.min(1),
+  category: z.enum(SPENDER_LABEL_CATEGORIES),
+}).omit({
+  updatedAt: true,
+});
+
+export type InsertSpenderLabel = z.infer<typeof insertSpenderLabelSchema>;
+export type SpenderLabel = typeof spenderLabels.$inferSelect;
+// The part of a label attached to approvals and revokes
+export type SpenderLabelInfo = Pick<SpenderLabel, "name" | "project" | "category" | "verified">;
+
+// Token metadata registry. Rows are read from the chain once, or come from an
+// ingested Uniswap-format token list, whose curated values always win.
+export const tokenMetadata = pgTable("token_metadata", {
+  // Stored lowercased
+  address: text("address").primaryKey(),
+  name: text("name").notNull(),
+  symbol: text("symbol").notNull(),
+  decimals: integer("decimals"),
+  logoUri: text("logo_uri"),
+  source: text("source").notNull().default("onchain"),
+  // Name of the token list the row came from, for source "tokenlist"
+  listName: text("list_name"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertTokenMetadataSchema = createInsertSchema(tokenMetadata).omit({
+  updatedAt: true,
+});
+
+export type InsertTokenMetadata = z.infer<typeof insertTokenMetadataSchema>;
+export type TokenMetadata = typeof tokenMetadata.$inferSelect;
+
+// Manually set USD prices, which take precedence over every other price source
+export const priceOverrides = pgTable("price_overrides", {
+  // Token address, stored lowercased
+  address: text("address").primaryKey(),
+  priceUsd: decimal("price_usd", { precision: 38, scale: 18 }).notNull(),
+  note: text("note"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPriceOverrideSchema = createInsertSchema(priceOverrides, {
+  address: (schema) => schema.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  priceUsd: (schema) => schema.regex(/^\d+(\.\d+)?$/, "Invalid price"),
+}).omit({
+  updatedAt: true,
+});
+
+export type InsertPriceOverride = z.infer<typeof insertPriceOverrideSchema>;
+export type PriceOverride = typeof priceOverrides.$inferSelect;
+
+// Frozen wallet security reports. Anyone with the (unguessable) id can read one.
+export const reports = pgTable("reports", {
+  id: varchar("id").primaryKey(),
+  // Stored lowercased
+  walletAddress: text("wallet_address").notNull(),
+  blockNumber: integer("block_number"),
+  snapshot: jsonb("snapshot").$type<WalletReportSnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("reports_wallet_idx").on(table.walletAddress),
+]);
+
+export type InsertReport = typeof reports.$inferInsert;
+export type Report = typeof reports.$inferSelect;
+
+// Wallets hidden from the leaderboard. A row exists only for a valid opt-out
+// signature by the wallet itself (shared/leaderboard.ts); deleting it opts back in.
+export const leaderboardOptOuts = pgTable("leaderboard_opt_outs", {
+  // Stored lowercased
+  address: text("address").primaryKey(),
+  signature: text("signature").notNull(),
+  // Issue time stated in the signed message
+  signedAt: timestamp("signed_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type LeaderboardOptOut = typeof leaderboardOptOuts.$inferSelect;
+
+export type LeaderboardWindow = "7d" | "30d" | "all";
+export type LeaderboardSort = "revokes" | "value";
+
+// One ranked wallet as returned by GET /api/leaderboard
+export interface LeaderboardEntry {
+  rank: number;
+  walletAddress: string;
+  revokes: number;
+  valueSecured: string;
+}
+
+export interface Leaderboard {
+  window: LeaderboardWindow;
+  sort: LeaderboardSort;
+  entries: LeaderboardEntry[];
+  // Whether the wallet passed as ?wallet= has opted out; absent without one
+  optedOut?: boolean;
+}
+
+// Where a token price came from: the override table, a DEX pool's reserves, or the static price file
+export type PriceSourceName = "override" | "dex" | "static";
+
+// USD price of a token as returned by GET /api/prices
+export interface TokenPrice {
+  tokenAddress: string;
+  priceUsd: number;
+  source: PriceSourceName;
+  // Unix seconds the price was set (override, static) or last moved (dex)
+  updatedAt: number;
+  // Older than the server's freshness limit
+  stale: boolean;
+  // Provenance shown next to the price: the pool address, the override note...
+  detail?: string;
+}
+
+// Risk assessment of an approved spender or operator (see server/risk.ts)
+export interface SpenderRisk {
+  // 0 (no findings) to 100
+  score: number;
+  level: "low" | "medium" | "high" | "critical";
+  reasons: string[];
+}
+
+// How an allowance compares to what it can move (see shared/allowance.ts)
+export type AllowanceClass = "unlimited" | "exceeds-supply" | "exceeds-balance" | "bounded";
+
+// Active ERC-20 approval as returned by GET /api/approvals. Token amounts are
+// raw base units as decimal strings; `decimals` formats them.
+export interface DetectedApproval {
+  id: string;
+  tokenAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  tokenLogoUri?: string;
+  spenderAddress: string;
+  decimals: number;
+  allowance: string;
+  allowanceClass: AllowanceClass;
+  // Worst case: allowance times the token price; absent when the token has no price or the allowance is unlimited
+  valueAtRisk?: number;
+  price?: TokenPrice;
+  // Absent when balanceOf / totalSupply reverted
+  balance?: string;
+  totalSupply?: string;
+  // What the spender can take today, min(allowance, balance), and its value when priced
+  exposure?: string;
+  exposureUsd?: number;
+  // False for tokens the wallet no longer (or does not yet) hold; the allowance still applies to future deposits
+  hasBalance?: boolean;
+  isUnlimited?: boolean;
+  approvalTimestamp?: number;
+  // Latest transfer out of the wallet attributed to the spender; absent if it never pulled tokens
+  lastUsedTimestamp?: number;
+  // Sum of those transfers
+  totalPulled?: string;
+  // Neither granted nor used within the dormancy period; a safe revoke candidate
+  isDormant?: boolean;
+  risk?: SpenderRisk;
+  spenderLabel?: SpenderLabelInfo;
+  // Blocklist feeds listing the spender as malicious; absent when it is not listed
+  flaggedBy?: string[];
+}
+
+// Active NFT operator (ApprovalForAll) or single-token ERC-721 approval as returned by GET /api/approvals/nft
+export interface DetectedNftApproval {
+  id: string;
+  collectionAddress: string;
+  collectionName: string;
+  collectionSymbol: string;
+  standard: "ERC721" | "ERC1155" | "unknown";
+  operatorAddress: string;
+  // Set for single-token ERC-721 approvals, absent for ApprovalForAll operators
+  tokenId?: string;
+  approvalTimestamp?: number;
+  risk?: SpenderRisk;
+  operatorLabel?: SpenderLabelInfo;
+  flaggedBy?: string[];
+}
+
+// Active Permit2 sub-allowance (owner -> token -> spender) as returned by GET /api/approvals/permit2
+export interface Permit2Allowance {
+  id: string;
+  tokenAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  spenderAddress: string;
+  // Raw base units, formatted with `decimals`
+  amount: string;
+  decimals: number;
+  // Classified against the uint160 range Permit2 stores amounts in
+  allowanceClass: AllowanceClass;
+  isUnlimited: boolean;
+  // Unix seconds after which Permit2 refuses the allowance
+  expiration: number;
+  nonce: number;
+  approvalTimestamp?: number;
+  spenderLabel?: SpenderLabelInfo;
+  flaggedBy?: string[];
+}
+
+// Where scan data came from: the ArcScan explorer API, the JSON-RPC node, or only the stored index
+export type DataSourceName = "explorer" | "rpc" | "index";
+
+export interface ScanMeta {
+  sources: DataSourceName[];
+  // True when a source could not return the complete block range
+  partial: boolean;
+  // Block the on-chain state was read at and when (unix seconds), for scans that pin one
+  blockNumber?: number;
+  scannedAt?: number;
+}
+
+// ERC-20 token held by a wallet as returned by GET /api/tokens
+export interface HeldToken {
+  contractAddress: string;
+  name: string;
+  symbol: string;
+  // Raw base units
+  balance: string;
+  decimals: number;
+  logoUri?: string;
+}
+
+// One step in the allowance timeline of a token/spender pair as returned by GET /api/approvals/history
+export interface AllowanceChange {
+  kind: "set" | "increase" | "decrease" | "revoke";
+  // Raw base units, formatted with the token's decimals
+  amount: string;
+  previousAmount: string;
+  isUnlimited: boolean;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  // Contract the transaction was sent to (the token itself, a router, a multisig...); null for contract creations
+  originContract: string | null;
+}
+
+// Approval worth a reviewer's attention in a report: a high or critical risk score, or a blocklisted spender
+export interface ReportFinding {
+  severity: SpenderRisk["level"];
+  kind: "erc20" | "nft" | "permit2";
+  tokenAddress: string;
+  tokenSymbol: string;
+  spenderAddress: string;
+  spenderName?: string;
+  reasons: string[];
+  flaggedBy?: string[];
+}
+
+// What a report freezes of a wallet; amounts keep the raw base-unit strings of the scans
+export interface WalletReportSnapshot {
+  scan: ScanMeta;
+  approvals: DetectedApproval[];
+  nftApprovals: DetectedNftApproval[];
+  permit2Allowances: Permit2Allowance[];
+  // worstCaseUsd is null when a priced token has an unlimited allowance
+  exposure: { effectiveUsd: number; worstCaseUsd: number | null };
+  findings: ReportFinding[];
+  revokes: { totalRevokes: number; totalValueSecured: string; items: WalletRevoke[] };
+}
+
+// Stored security report as returned by GET /api/reports/:id
+export interface WalletReport extends WalletReportSnapshot {
+  id: string;
+  walletAddress: string;
+  createdAt: string;
+}
+
+// Pushed over GET /api/approvals/stream; the SSE event name matches `type`
+export type ApprovalStreamEvent =
+  | { type: "approval"; approval: DetectedApproval }
+  | { type: "approval-removed"; id: string }
+  | { type: "nft-approval"; approval: DetectedNftApproval }
+  | { type: "nft-approval-removed"; id: string }
+  | { type: "revoke"; revoke: RevokeHistory };
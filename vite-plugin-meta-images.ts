@@ -2,6 +2,48 @@ import type { Plugin } from 'vite';
 import fs from 'fs';
 import path from 'path';
 
+export interface MetaTags {
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  // MIME type of imageUrl when it is not a PNG/JPEG file
+  imageType?: string;
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Rewrites the OpenGraph and Twitter card tags of index.html. Only tags that
+ * already exist in the template are replaced, apart from og:image:type which
+ * is added next to og:image when given. Used by the plugin below at build time
+ * and by the server for pages with their own preview, such as /report/:id.
+ */
+export function applyMetaTags(html: string, tags: MetaTags): string {
+  const replace = (attribute: 'property' | 'name', key: string, value: string | undefined) => {
+    if (value === undefined) return;
+    html = html.replace(
+      new RegExp(`<meta\\s+${attribute}="${key}"\\s+content="[^"]*"\\s*/>`, 'g'),
+      // A function replacement, so "$" in titles is not read as a group reference
+      () => `<meta ${attribute}="${key}" content="${escapeAttribute(value)}" />`
+    );
+  };
+
+  replace('property', 'og:title', tags.title);
+  replace('name', 'twitter:title', tags.title);
+  replace('property', 'og:description', tags.description);
+  replace('name', 'twitter:description', tags.description);
+  replace('property', 'og:image', tags.imageUrl);
+  replace('name', 'twitter:image', tags.imageUrl);
+  if (tags.imageUrl && tags.imageType) {
+    html = html.replace(
+      /<meta\s+property="og:image"\s+content="[^"]*"\s*\/>/,
+      (tag) => `${tag}\n    <meta property="og:image:type" content="${escapeAttribute(tags.imageType!)}" />`
+    );
+  }
+  return html;
+}
+
 /**
  * Vite plugin that updates og:image and twitter:image meta tags
  * to point to the app's opengraph image with the correct Replit domain.
@@ -40,22 +82,12 @@ export function metaImagesPlugin(): Plugin {
 
       log('[meta-images] updating meta image tags to:', imageUrl);
 
-      html = html.replace(
-        /<meta\s+property="og:image"\s+content="[^"]*"\s*\/>/g,
-        `<meta property="og:image" content="${imageUrl}" />`
-      );
-
-      html = html.replace(
-        /<meta\s+name="twitter:image"\s+content="[^"]*"\s*\/>/g,
-        `<meta name="twitter:image" content="${imageUrl}" />`
-      );
-
-      return html;
+      return applyMetaTags(html, { imageUrl });
     },
   };
 }
 
-function getDeploymentUrl(): string | null {
+export function getDeploymentUrl(): string | null {
   if (process.env.REPLIT_INTERNAL_APP_DOMAIN) {
     const url = `https://${process.env.REPLIT_INTERNAL_APP_DOMAIN}`;
     log('[meta-images] using internal app domain:', url);